@@ -26,6 +26,9 @@ interface Config {
     windowMs: number;
     maxRequests: number;
   };
+  redis: {
+    url: string; // Empty runs a single instance without Redis
+  };
   auction: {
     defaultBidTimerSeconds: number;
   };
@@ -53,6 +56,9 @@ const config: Config = {
     windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10),
     maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
   },
+  redis: {
+    url: process.env.REDIS_URL || '',
+  },
   auction: {
     defaultBidTimerSeconds: parseInt(process.env.DEFAULT_BID_TIMER_SECONDS || '30', 10),
   },
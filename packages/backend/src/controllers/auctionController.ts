@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { Auction, Team, PlayerRegistration, SPORT_CONFIGS, DEFAULT_CRICKET_BASE_PRICES } from '../models';
 import {
   AuctionStatus,
+  ErrorCode,
   SportType,
   UserRole,
   PlayerAuctionStatus,
@@ -12,6 +13,16 @@ import {
   ValidationError,
   ConflictError,
 } from '../middleware/errorHandler';
+import {
+  auctionService,
+  bidService,
+  correctionService,
+  draftService,
+  playerSetService,
+  retentionService,
+  squadService,
+} from '../services';
+import type { AuctionSocketManager } from '../socket';
 import bcrypt from 'bcryptjs';
 import mongoose from 'mongoose';
 
@@ -29,14 +40,24 @@ export const createAuction = async (
       name,
       description,
       sportType = SportType.CRICKET,
+      format,
+      draftOrderType,
       password,
       bidIncrementAmount,
+      bidIncrementTiers,
       teamBudget,
       bidTimerSeconds = 30,
+      softClose,
+      goingOnceSeconds,
+      goingTwiceSeconds,
       basePriceTiers,
       roles,
       maxTeams,
       maxPlayersPerTeam,
+      squadRules,
+      rtmCardsPerTeam,
+      rtmWindowSeconds,
+      maxRetentionsPerTeam,
       scheduledStartTime,
     } = req.body;
 
@@ -48,6 +69,14 @@ export const createAuction = async (
       basePriceTiers: basePriceTiers || DEFAULT_CRICKET_BASE_PRICES,
     };
 
+    if (squadRules) {
+      squadService.validateSquadRules(squadRules, sportConfig.roles, maxPlayersPerTeam);
+    }
+
+    if (bidIncrementTiers) {
+      bidService.validateBidIncrementTiers(bidIncrementTiers);
+    }
+
     // Hash the password
     const salt = await bcrypt.genSalt(10);
     const passwordHash = await bcrypt.hash(password, salt);
@@ -57,18 +86,30 @@ export const createAuction = async (
       name,
       description,
       sportType,
+      format,
+      draftOrderType,
       sportConfig,
       password,
       passwordHash,
       bidIncrementAmount,
+      bidIncrementTiers,
       teamBudget,
       bidTimerSeconds,
+      softClose,
+      goingOnceSeconds,
+      goingTwiceSeconds,
       maxTeams,
       maxPlayersPerTeam,
+      squadRules,
+      rtmCardsPerTeam,
+      rtmWindowSeconds,
+      maxRetentionsPerTeam,
       scheduledStartTime: scheduledStartTime ? new Date(scheduledStartTime) : undefined,
       createdBy: req.user?._id,
     });
 
+    auctionService.validateCallPhases(auction.goingOnceSeconds, auction.goingTwiceSeconds);
+
     await auction.save();
 
     res.status(201).json({
@@ -202,6 +243,7 @@ export const getAuctionById = async (
         pending: 0,
         sold: 0,
         unsold: 0,
+        retained: 0,
       },
     };
 
@@ -210,6 +252,7 @@ export const getAuctionById = async (
       if (stat._id === PlayerAuctionStatus.PENDING) stats.players.pending = stat.count;
       if (stat._id === PlayerAuctionStatus.SOLD) stats.players.sold = stat.count;
       if (stat._id === PlayerAuctionStatus.UNSOLD) stats.players.unsold = stat.count;
+      if (stat._id === PlayerAuctionStatus.RETAINED) stats.players.retained = stat.count;
     });
 
     res.json({
@@ -260,6 +303,21 @@ export const updateAuction = async (
       restrictedFields.forEach((field) => delete updates[field]);
     }
 
+    if (updates.squadRules) {
+      squadService.validateSquadRules(
+        updates.squadRules,
+        auction.sportConfig.roles,
+        updates.maxPlayersPerTeam ?? auction.maxPlayersPerTeam
+      );
+    }
+
+    if (updates.goingOnceSeconds !== undefined || updates.goingTwiceSeconds !== undefined) {
+      auctionService.validateCallPhases(
+        updates.goingOnceSeconds ?? auction.goingOnceSeconds,
+        updates.goingTwiceSeconds ?? auction.goingTwiceSeconds
+      );
+    }
+
     const updatedAuction = await Auction.findByIdAndUpdate(id, updates, {
       new: true,
       runValidators: true,
@@ -345,6 +403,7 @@ export const verifyAuctionPassword = async (
       res.status(401).json({
         success: false,
         message: 'Invalid auction password',
+        code: ErrorCode.INVALID_AUCTION_PASSWORD,
       });
       return;
     }
@@ -364,7 +423,7 @@ export const verifyAuctionPassword = async (
 };
 
 /**
- * Start auction
+ * Start or resume auction
  * POST /api/auctions/:id/start
  */
 export const startAuction = async (
@@ -374,6 +433,81 @@ export const startAuction = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
+    const socketManager = req.app.get('socketManager') as AuctionSocketManager;
+
+    const auction = await socketManager.startAuction(id, req.user!._id.toString());
+
+    res.json({
+      success: true,
+      message: 'Auction started',
+      data: { auction },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Pause auction
+ * POST /api/auctions/:id/pause
+ */
+export const pauseAuction = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const socketManager = req.app.get('socketManager') as AuctionSocketManager;
+
+    const auction = await socketManager.pauseAuction(id, req.user!._id.toString());
+
+    res.json({
+      success: true,
+      message: 'Auction paused',
+      data: { auction },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Withdraw the player on the block back to the pool without a result
+ * POST /api/auctions/:id/withdraw-player
+ */
+export const withdrawPlayer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const socketManager = req.app.get('socketManager') as AuctionSocketManager;
+
+    const { player } = await socketManager.withdrawPlayer(id, req.user!._id.toString());
+
+    res.json({
+      success: true,
+      message: 'Player withdrawn from the block',
+      data: { player },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the player sets of an auction with the pending nomination queue
+ * GET /api/auctions/:id/sets
+ */
+export const getPlayerSets = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
 
     const auction = await Auction.findById(id);
 
@@ -381,38 +515,129 @@ export const startAuction = async (
       throw new NotFoundError('Auction not found');
     }
 
-    // Check ownership
-    if (auction.createdBy.toString() !== req.user?._id.toString()) {
-      throw new ForbiddenError('Only the auction creator can start the auction');
-    }
+    const queue = await playerSetService.getNominationQueue(auction);
 
-    if (auction.status !== AuctionStatus.UPCOMING && auction.status !== AuctionStatus.PAUSED) {
-      throw new ValidationError('Auction cannot be started from current state');
-    }
+    res.json({
+      success: true,
+      data: {
+        sets: auction.playerSets,
+        currentSet: auction.currentSet,
+        queue,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    // Check if there are enough teams and players
-    const [teamCount, playerCount] = await Promise.all([
-      Team.countDocuments({ auction: id, isActive: true }),
-      PlayerRegistration.countDocuments({ auction: id, status: PlayerAuctionStatus.PENDING }),
-    ]);
+/**
+ * Get the draft board of a draft auction
+ * GET /api/auctions/:id/draft
+ */
+export const getDraftBoard = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
 
-    if (teamCount < 2) {
-      throw new ValidationError('At least 2 teams are required to start the auction');
-    }
+    const draft = await draftService.getDraftBoard(id);
 
-    if (playerCount < 1) {
-      throw new ValidationError('At least 1 player is required to start the auction');
-    }
+    res.json({
+      success: true,
+      data: { draft },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    auction.status = AuctionStatus.LIVE;
-    if (!auction.actualStartTime) {
-      auction.actualStartTime = new Date();
-    }
-    await auction.save();
+/**
+ * Set the first-round pick order of a draft
+ * PUT /api/auctions/:id/draft-order
+ */
+export const setDraftOrder = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { teamIds, orderType } = req.body;
+
+    await draftService.setDraftOrder(id, req.user!._id.toString(), { teamIds, orderType });
+    const draft = await draftService.getDraftBoard(id);
 
     res.json({
       success: true,
-      message: 'Auction started',
+      message: 'Draft order updated',
+      data: { draft },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Replace the player sets of an auction
+ * PUT /api/auctions/:id/sets
+ */
+export const updatePlayerSets = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { sets } = req.body;
+
+    const auction = await playerSetService.configurePlayerSets(
+      id,
+      req.user!._id.toString(),
+      sets
+    );
+    const queue = await playerSetService.getNominationQueue(auction);
+
+    res.json({
+      success: true,
+      message: 'Player sets updated',
+      data: {
+        sets: auction.playerSets,
+        currentSet: auction.currentSet,
+        queue,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Open an accelerated round for unsold players
+ * POST /api/auctions/:id/rounds
+ */
+export const openAcceleratedRound = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { playerIds, basePrice, bidTimerSeconds } = req.body;
+    const socketManager = req.app.get('socketManager') as AuctionSocketManager;
+
+    const auction = await socketManager.openAcceleratedRound({
+      auctionId: id,
+      userId: req.user!._id.toString(),
+      playerIds,
+      basePrice,
+      bidTimerSeconds,
+    });
+
+    res.json({
+      success: true,
+      message: `Round ${auction.currentRound} opened`,
       data: { auction },
     });
   } catch (error) {
@@ -421,39 +646,85 @@ export const startAuction = async (
 };
 
 /**
- * Pause auction
- * POST /api/auctions/:id/pause
+ * Undo the most recent sold/unsold result
+ * POST /api/auctions/:id/corrections/undo
  */
-export const pauseAuction = async (
+export const undoLastResult = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
     const { id } = req.params;
+    const { reason } = req.body;
+    const socketManager = req.app.get('socketManager') as AuctionSocketManager;
 
-    const auction = await Auction.findById(id);
+    const { correction, player, teams } = await socketManager.undoLastResult(
+      id,
+      req.user!._id.toString(),
+      reason
+    );
 
-    if (!auction) {
-      throw new NotFoundError('Auction not found');
-    }
+    res.json({
+      success: true,
+      message: 'Last result undone',
+      data: { correction, player, teams },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    // Check ownership
-    if (auction.createdBy.toString() !== req.user?._id.toString()) {
-      throw new ForbiddenError('Only the auction creator can pause the auction');
-    }
+/**
+ * Reassign a sold player to another team
+ * POST /api/auctions/:id/corrections/reassign
+ */
+export const reassignSale = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { playerId, teamId, reason, price } = req.body;
+    const socketManager = req.app.get('socketManager') as AuctionSocketManager;
+
+    const { correction, player, teams } = await socketManager.reassignSale({
+      auctionId: id,
+      playerId,
+      teamId,
+      reason,
+      price,
+      userId: req.user!._id.toString(),
+    });
 
-    if (auction.status !== AuctionStatus.LIVE) {
-      throw new ValidationError('Only live auctions can be paused');
-    }
+    res.json({
+      success: true,
+      message: 'Sale reassigned',
+      data: { correction, player, teams },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    auction.status = AuctionStatus.PAUSED;
-    await auction.save();
+/**
+ * Get the correction history of an auction
+ * GET /api/auctions/:id/corrections
+ */
+export const getCorrections = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const corrections = await correctionService.getCorrections(id);
 
     res.json({
       success: true,
-      message: 'Auction paused',
-      data: { auction },
+      data: { corrections },
     });
   } catch (error) {
     next(error);
@@ -461,36 +732,78 @@ export const pauseAuction = async (
 };
 
 /**
- * End auction
- * POST /api/auctions/:id/end
+ * Retain a player for a team before the auction starts
+ * POST /api/auctions/:id/retentions
  */
-export const endAuction = async (
+export const retainPlayer = async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
     const { id } = req.params;
+    const { teamId, playerId, price } = req.body;
+
+    const { team, player } = await retentionService.retainPlayer({
+      auctionId: id,
+      teamId,
+      playerId,
+      price,
+      userId: req.user!._id.toString(),
+    });
 
-    const auction = await Auction.findById(id);
+    res.status(201).json({
+      success: true,
+      message: 'Player retained',
+      data: { team, player },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    if (!auction) {
-      throw new NotFoundError('Auction not found');
-    }
+/**
+ * Release a retained player back into the auction pool
+ * DELETE /api/auctions/:id/retentions/:playerId
+ */
+export const releaseRetention = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id, playerId } = req.params;
 
-    // Check ownership
-    if (auction.createdBy.toString() !== req.user?._id.toString()) {
-      throw new ForbiddenError('Only the auction creator can end the auction');
-    }
+    const { team, player } = await retentionService.releaseRetention(
+      id,
+      playerId,
+      req.user!._id.toString()
+    );
 
-    if (auction.status === AuctionStatus.ENDED) {
-      throw new ValidationError('Auction has already ended');
-    }
+    res.json({
+      success: true,
+      message: 'Retention released',
+      data: { team, player },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    auction.status = AuctionStatus.ENDED;
-    auction.endTime = new Date();
-    auction.currentPlayerOnBlock = undefined;
-    await auction.save();
+/**
+ * End auction
+ * POST /api/auctions/:id/end
+ */
+export const endAuction = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const socketManager = req.app.get('socketManager') as AuctionSocketManager;
+
+    const auction = await socketManager.endAuction(id, req.user!._id.toString());
 
     res.json({
       success: true,
@@ -537,6 +850,11 @@ export const getAuctionResults = async (
       status: PlayerAuctionStatus.UNSOLD,
     }).populate('user', 'name email');
 
+    const retainedPlayers = await PlayerRegistration.find({
+      auction: id,
+      status: PlayerAuctionStatus.RETAINED,
+    }).populate('user', 'name email');
+
     // Calculate stats
     const soldPlayers = await PlayerRegistration.find({
       auction: id,
@@ -552,9 +870,11 @@ export const getAuctionResults = async (
         auction,
         teams,
         unsoldPlayers,
+        retainedPlayers,
         stats: {
           totalPlayersSold: soldPlayers.length,
           totalPlayersUnsold: unsoldPlayers.length,
+          totalPlayersRetained: retainedPlayers.length,
           totalSpent,
           highestSale,
           averagePrice: soldPlayers.length > 0 ? Math.round(totalSpent / soldPlayers.length) : 0,
@@ -575,6 +895,17 @@ export default {
   verifyAuctionPassword,
   startAuction,
   pauseAuction,
+  withdrawPlayer,
+  getPlayerSets,
+  updatePlayerSets,
+  getDraftBoard,
+  setDraftOrder,
+  openAcceleratedRound,
+  undoLastResult,
+  reassignSale,
+  getCorrections,
+  retainPlayer,
+  releaseRetention,
   endAuction,
   getAuctionResults,
 };
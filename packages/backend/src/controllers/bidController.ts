@@ -1,11 +1,29 @@
 import { Request, Response, NextFunction } from 'express';
-import { Bid, Team, PlayerRegistration, Auction } from '../models';
-import { BidStatus, AuctionStatus, PlayerAuctionStatus } from '../types';
-import {
-  NotFoundError,
-  ForbiddenError,
-  ValidationError,
-} from '../middleware/errorHandler';
+import { Auction, Bid, Team } from '../models';
+import { AuctionFormat, BidStatus, IBid } from '../types';
+import { NotFoundError } from '../middleware/errorHandler';
+import { proxyBidService } from '../services';
+import type { AuctionSocketManager } from '../socket';
+
+/**
+ * Drop sealed bids that have not been revealed yet, except the user's own
+ */
+const withoutHiddenBids = async (bids: IBid[], userId: string): Promise<IBid[]> => {
+  const openBids = bids.filter((b) => b.status === BidStatus.ACTIVE);
+  if (openBids.length === 0) return bids;
+
+  const sealedAuctions = await Auction.find({
+    _id: { $in: openBids.map((b) => b.auction) },
+    format: AuctionFormat.SEALED,
+  }).select('_id');
+  const sealedIds = new Set(sealedAuctions.map((a) => a._id.toString()));
+
+  return bids.filter((b) => {
+    if (b.status !== BidStatus.ACTIVE || !sealedIds.has(b.auction.toString())) return true;
+    const bidderId = (b.bidder as any)?._id ?? b.bidder;
+    return bidderId.toString() === userId;
+  });
+};
 
 /**
  * Place a bid (REST API - for backup/validation)
@@ -19,26 +37,6 @@ export const placeBid = async (
   try {
     const { auctionId, playerId, amount } = req.body;
 
-    // Get auction
-    const auction = await Auction.findById(auctionId);
-    if (!auction) {
-      throw new NotFoundError('Auction not found');
-    }
-
-    if (auction.status !== AuctionStatus.LIVE) {
-      throw new ValidationError('Auction is not live');
-    }
-
-    // Get player
-    const player = await PlayerRegistration.findById(playerId);
-    if (!player) {
-      throw new NotFoundError('Player not found');
-    }
-
-    if (player.status !== PlayerAuctionStatus.IN_AUCTION) {
-      throw new ValidationError('Player is not currently on the block');
-    }
-
     // Get team
     const team = await Team.findOne({
       auction: auctionId,
@@ -50,46 +48,17 @@ export const placeBid = async (
       throw new NotFoundError('You do not have a team in this auction');
     }
 
-    // Validate bid amount
-    const currentHighestBid = await Bid.findOne({
-      player: playerId,
-      status: BidStatus.ACTIVE,
-    }).sort({ amount: -1 });
-
-    const minimumBid = currentHighestBid
-      ? currentHighestBid.amount + auction.bidIncrementAmount
-      : player.basePrice;
-
-    if (amount < minimumBid) {
-      throw new ValidationError(`Minimum bid is ${minimumBid}`);
-    }
-
-    // Check if team can afford
-    if (team.remainingBudget < amount) {
-      throw new ValidationError('Insufficient budget');
-    }
-
-    // Create bid
-    const bid = new Bid({
-      auction: auctionId,
-      player: playerId,
-      team: team._id,
-      bidder: req.user?._id,
-      amount,
-      status: BidStatus.ACTIVE,
-      timestamp: new Date(),
-    });
-
-    await bid.save();
-
-    // Mark other bids as outbid
-    await Bid.updateMany(
+    // Go through the socket manager so the room sees the bid and proxies respond
+    const socketManager = req.app.get('socketManager') as AuctionSocketManager;
+    const { bid } = await socketManager.acceptBid(
       {
-        player: playerId,
-        _id: { $ne: bid._id },
-        status: BidStatus.ACTIVE,
+        auctionId,
+        playerId,
+        teamId: team._id.toString(),
+        bidderId: req.user!._id.toString(),
+        amount,
       },
-      { status: BidStatus.OUTBID }
+      req.user!.name
     );
 
     const populatedBid = await Bid.findById(bid._id)
@@ -106,6 +75,87 @@ export const placeBid = async (
   }
 };
 
+/**
+ * Set or raise the proxy ceiling for a player
+ * PUT /api/bids/proxy
+ */
+export const setProxyBid = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { auctionId, playerId, maxAmount } = req.body;
+
+    const socketManager = req.app.get('socketManager') as AuctionSocketManager;
+    const proxyBid = await socketManager.setProxyBid({
+      auctionId,
+      playerId,
+      ownerId: req.user!._id.toString(),
+      maxAmount,
+    });
+
+    res.json({
+      success: true,
+      message: 'Proxy bid set',
+      data: { proxyBid },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Cancel the proxy ceiling for a player
+ * DELETE /api/bids/proxy/:playerId
+ */
+export const cancelProxyBid = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { playerId } = req.params;
+    const { auctionId } = req.query;
+
+    await proxyBidService.cancelProxyBid(
+      auctionId as string,
+      playerId,
+      req.user!._id.toString()
+    );
+
+    res.json({
+      success: true,
+      message: 'Proxy bid cancelled',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the user's active proxy ceilings in an auction
+ * GET /api/bids/proxy/auction/:auctionId
+ */
+export const getMyProxyBids = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { auctionId } = req.params;
+
+    const proxyBids = await proxyBidService.getMyProxyBids(auctionId, req.user!._id.toString());
+
+    res.json({
+      success: true,
+      data: { proxyBids },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Get bid history for a player
  * GET /api/bids/player/:playerId
@@ -125,7 +175,7 @@ export const getPlayerBids = async (
 
     res.json({
       success: true,
-      data: { bids },
+      data: { bids: await withoutHiddenBids(bids, req.user!._id.toString()) },
     });
   } catch (error) {
     next(error);
@@ -144,13 +194,14 @@ export const getCurrentBid = async (
   try {
     const { playerId } = req.params;
 
-    const bid = await Bid.findOne({
+    const bids = await Bid.find({
       player: playerId,
       status: { $in: [BidStatus.ACTIVE, BidStatus.WON] },
     })
       .populate('team', 'name shortName')
       .populate('bidder', 'name')
       .sort({ amount: -1 });
+    const [bid = null] = await withoutHiddenBids(bids, req.user!._id.toString());
 
     res.json({
       success: true,
@@ -196,7 +247,7 @@ export const getAuctionBids = async (
     res.json({
       success: true,
       data: {
-        bids,
+        bids: await withoutHiddenBids(bids, req.user!._id.toString()),
         pagination: {
           page: Number(page),
           limit: Number(limit),
@@ -222,7 +273,7 @@ export const getTeamBids = async (
   try {
     const { teamId } = req.params;
 
-    const bids = await Bid.find({ team: teamId })
+    const teamBids = await Bid.find({ team: teamId })
       .populate({
         path: 'player',
         populate: {
@@ -231,6 +282,7 @@ export const getTeamBids = async (
         },
       })
       .sort({ timestamp: -1 });
+    const bids = await withoutHiddenBids(teamBids, req.user!._id.toString());
 
     // Group by status
     const summary = {
@@ -261,8 +313,19 @@ export const getAuctionBidStats = async (
   try {
     const { auctionId } = req.params;
 
+    const auction = await Auction.findById(auctionId).select('format');
+    if (!auction) {
+      throw new NotFoundError('Auction not found');
+    }
+
+    // Sealed bids stay out of the figures until their lot is revealed
+    const match: Record<string, unknown> = { auction: auction._id };
+    if (auction.format === AuctionFormat.SEALED) {
+      match.status = { $ne: BidStatus.ACTIVE };
+    }
+
     const stats = await Bid.aggregate([
-      { $match: { auction: auctionId } },
+      { $match: match },
       {
         $group: {
           _id: null,
@@ -287,7 +350,7 @@ export const getAuctionBidStats = async (
 
     // Get bidding activity by team
     const teamActivity = await Bid.aggregate([
-      { $match: { auction: auctionId } },
+      { $match: match },
       {
         $group: {
           _id: '$team',
@@ -341,6 +404,9 @@ export const getAuctionBidStats = async (
 
 export default {
   placeBid,
+  setProxyBid,
+  cancelProxyBid,
+  getMyProxyBids,
   getPlayerBids,
   getCurrentBid,
   getAuctionBids,
@@ -1,12 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
 import { PlayerRegistration, Auction, Team } from '../models';
-import { AuctionStatus, PlayerAuctionStatus } from '../types';
+import { AuctionFormat, AuctionStatus, PlayerAuctionStatus } from '../types';
 import {
   NotFoundError,
   ForbiddenError,
   ValidationError,
   ConflictError,
 } from '../middleware/errorHandler';
+import { playerSetService } from '../services';
+import type { AuctionSocketManager } from '../socket';
 import bcrypt from 'bcryptjs';
 
 /**
@@ -311,12 +313,12 @@ export const getNextPlayer = async (
   try {
     const { auctionId } = req.params;
 
-    const nextPlayer = await PlayerRegistration.findOne({
-      auction: auctionId,
-      status: PlayerAuctionStatus.PENDING,
-    })
-      .populate('user', 'name email avatar')
-      .sort({ registrationOrder: 1 });
+    const auction = await Auction.findById(auctionId);
+    if (!auction) {
+      throw new NotFoundError('Auction not found');
+    }
+
+    const nextPlayer = await playerSetService.getNextPlayer(auction);
 
     if (!nextPlayer) {
       res.json({
@@ -329,7 +331,10 @@ export const getNextPlayer = async (
 
     res.json({
       success: true,
-      data: { player: nextPlayer },
+      data: {
+        player: nextPlayer,
+        setName: playerSetService.getSetName(auction, nextPlayer),
+      },
     });
   } catch (error) {
     next(error);
@@ -347,8 +352,9 @@ export const putPlayerOnBlock = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
+    const socketManager = req.app.get('socketManager') as AuctionSocketManager;
 
-    const player = await PlayerRegistration.findById(id);
+    const player = await PlayerRegistration.findById(id).populate('user', 'name email avatar');
 
     if (!player) {
       throw new NotFoundError('Player registration not found');
@@ -368,23 +374,70 @@ export const putPlayerOnBlock = async (
       throw new ValidationError('Auction must be live to put player on block');
     }
 
-    // Update player status
-    player.status = PlayerAuctionStatus.IN_AUCTION;
-    await player.save();
-
-    // Update auction's current player
-    auction.currentPlayerOnBlock = player._id;
-    await auction.save();
+    if (auction.format === AuctionFormat.DRAFT) {
+      throw new ValidationError('Players are drafted in this auction');
+    }
 
-    const populatedPlayer = await PlayerRegistration.findById(id).populate(
-      'user',
-      'name email avatar'
-    );
+    await socketManager.putOnBlock(auction, player);
 
     res.json({
       success: true,
       message: 'Player is now on the block',
-      data: { player: populatedPlayer },
+      data: { player },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Set the team a player last played for, which may use a Right-to-Match card on them
+ * PUT /api/players/:id/previous-team
+ */
+export const setPreviousTeam = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { teamId } = req.body;
+
+    const player = await PlayerRegistration.findById(id);
+
+    if (!player) {
+      throw new NotFoundError('Player registration not found');
+    }
+
+    if (player.status !== PlayerAuctionStatus.PENDING) {
+      throw new ValidationError('Previous team can only be changed before the player is auctioned');
+    }
+
+    const auction = await Auction.findById(player.auction);
+    if (!auction) {
+      throw new NotFoundError('Auction not found');
+    }
+
+    if (auction.createdBy.toString() !== req.user?._id.toString()) {
+      throw new ForbiddenError('You can only manage players in your own auctions');
+    }
+
+    if (teamId) {
+      const team = await Team.findOne({ _id: teamId, auction: auction._id });
+      if (!team) {
+        throw new NotFoundError('Team not found in this auction');
+      }
+      player.previousTeam = team._id;
+    } else {
+      player.previousTeam = undefined;
+    }
+
+    await player.save();
+
+    res.json({
+      success: true,
+      message: teamId ? 'Previous team updated' : 'Previous team cleared',
+      data: { player },
     });
   } catch (error) {
     next(error);
@@ -472,5 +525,6 @@ export default {
   withdrawRegistration,
   getNextPlayer,
   putPlayerOnBlock,
+  setPreviousTeam,
   getPlayerStats,
 };
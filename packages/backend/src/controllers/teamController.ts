@@ -7,6 +7,7 @@ import {
   ValidationError,
   ConflictError,
 } from '../middleware/errorHandler';
+import { wishlistService } from '../services';
 import bcrypt from 'bcryptjs';
 
 /**
@@ -344,6 +345,82 @@ export const getTeamPlayers = async (
   }
 };
 
+/**
+ * Get the team's private wishlist
+ * GET /api/teams/:id/wishlist
+ */
+export const getWishlist = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const wishlist = await wishlistService.getWishlist(id, req.user!._id.toString());
+
+    res.json({
+      success: true,
+      data: { wishlist },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Shortlist a player or update their priority and target price
+ * PUT /api/teams/:id/wishlist/:playerId
+ */
+export const saveWishlistEntry = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id, playerId } = req.params;
+    const { priority, targetPrice, notes } = req.body;
+
+    const entry = await wishlistService.saveWishlistEntry(
+      id,
+      req.user!._id.toString(),
+      playerId,
+      { priority, targetPrice, notes }
+    );
+
+    res.json({
+      success: true,
+      message: 'Wishlist updated',
+      data: { entry },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Remove a player from the team's wishlist
+ * DELETE /api/teams/:id/wishlist/:playerId
+ */
+export const removeWishlistEntry = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id, playerId } = req.params;
+
+    await wishlistService.removeWishlistEntry(id, req.user!._id.toString(), playerId);
+
+    res.json({
+      success: true,
+      message: 'Player removed from wishlist',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export default {
   registerTeam,
   getTeamsByAuction,
@@ -352,4 +429,7 @@ export default {
   updateTeam,
   withdrawTeam,
   getTeamPlayers,
+  getWishlist,
+  saveWishlistEntry,
+  removeWishlistEntry,
 };
@@ -11,6 +11,7 @@ import passport from './config/passport';
 import routes from './routes';
 import { notFound, errorHandler } from './middleware/errorHandler';
 import { AuctionSocketManager } from './socket';
+import { ErrorCode } from './types';
 
 // Create Express app
 const app: Application = express();
@@ -20,9 +21,18 @@ const httpServer = createServer(app);
 
 // Initialize Socket.IO
 const socketManager = new AuctionSocketManager(httpServer);
-
-// Connect to MongoDB
-connectDB();
+app.set('socketManager', socketManager);
+
+// Connect to MongoDB and the other instances, then pick up any lots that were
+// running before a restart. Timers cannot be shared safely without the cluster,
+// so an instance that fails to join it stops rather than running them alone.
+Promise.all([connectDB(), socketManager.connectCluster()])
+  .catch((error) => {
+    console.error('❌ Error connecting to the socket cluster:', error);
+    process.exit(1);
+  })
+  .then(() => socketManager.restoreTimers())
+  .catch((error) => console.error('Failed to restore auction timers:', error));
 
 // Security middleware
 app.use(helmet());
@@ -44,6 +54,7 @@ const limiter = rateLimit({
   message: {
     success: false,
     message: 'Too many requests, please try again later.',
+    code: ErrorCode.RATE_LIMITED,
   },
   standardHeaders: true,
   legacyHeaders: false,
@@ -2,7 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { User } from '../models';
 import config from '../config';
-import { IJwtPayload, UserRole, UserDocument } from '../types';
+import { ErrorCode, IJwtPayload, UserRole, UserDocument } from '../types';
 
 // Extend Express Request to include user
 declare global {
@@ -29,6 +29,7 @@ export const authenticate = async (
       res.status(401).json({
         success: false,
         message: 'Access denied. No token provided.',
+        code: ErrorCode.UNAUTHORIZED,
       });
       return;
     }
@@ -45,6 +46,7 @@ export const authenticate = async (
       res.status(401).json({
         success: false,
         message: 'Invalid token or user not found.',
+        code: ErrorCode.UNAUTHORIZED,
       });
       return;
     }
@@ -57,7 +59,7 @@ export const authenticate = async (
       res.status(401).json({
         success: false,
         message: 'Token expired.',
-        code: 'TOKEN_EXPIRED',
+        code: ErrorCode.TOKEN_EXPIRED,
       });
       return;
     }
@@ -66,6 +68,7 @@ export const authenticate = async (
       res.status(401).json({
         success: false,
         message: 'Invalid token.',
+        code: ErrorCode.UNAUTHORIZED,
       });
       return;
     }
@@ -113,6 +116,7 @@ export const authorize = (...allowedRoles: UserRole[]) => {
       res.status(401).json({
         success: false,
         message: 'Authentication required.',
+        code: ErrorCode.UNAUTHORIZED,
       });
       return;
     }
@@ -121,6 +125,7 @@ export const authorize = (...allowedRoles: UserRole[]) => {
       res.status(403).json({
         success: false,
         message: 'Access denied. Insufficient permissions.',
+        code: ErrorCode.FORBIDDEN,
       });
       return;
     }
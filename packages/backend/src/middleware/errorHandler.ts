@@ -1,8 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
+import { ErrorCode, IErrorDetails, IErrorPayload } from '../types';
 
 interface AppError extends Error {
   statusCode?: number;
-  code?: string;
+  code?: ErrorCode;
+  details?: IErrorDetails;
   isOperational?: boolean;
 }
 
@@ -11,17 +13,31 @@ interface AppError extends Error {
  */
 export class ApiError extends Error implements AppError {
   statusCode: number;
-  code?: string;
+  code: ErrorCode;
+  details?: IErrorDetails;
   isOperational: boolean;
 
-  constructor(message: string, statusCode: number = 500, code?: string) {
+  constructor(
+    message: string,
+    statusCode: number = 500,
+    code: ErrorCode = ErrorCode.INTERNAL_ERROR,
+    details?: IErrorDetails
+  ) {
     super(message);
     this.statusCode = statusCode;
     this.code = code;
+    this.details = details;
     this.isOperational = true;
 
     Error.captureStackTrace(this, this.constructor);
   }
+
+  /**
+   * Code, message and detail fields as sent to clients
+   */
+  toPayload(): IErrorPayload {
+    return { code: this.code, message: this.message, ...this.details };
+  }
 }
 
 /**
@@ -29,7 +45,7 @@ export class ApiError extends Error implements AppError {
  */
 export class NotFoundError extends ApiError {
   constructor(message: string = 'Resource not found') {
-    super(message, 404, 'NOT_FOUND');
+    super(message, 404, ErrorCode.NOT_FOUND);
   }
 }
 
@@ -38,7 +54,7 @@ export class NotFoundError extends ApiError {
  */
 export class ValidationError extends ApiError {
   constructor(message: string = 'Validation failed') {
-    super(message, 400, 'VALIDATION_ERROR');
+    super(message, 400, ErrorCode.VALIDATION_ERROR);
   }
 }
 
@@ -47,7 +63,7 @@ export class ValidationError extends ApiError {
  */
 export class UnauthorizedError extends ApiError {
   constructor(message: string = 'Unauthorized') {
-    super(message, 401, 'UNAUTHORIZED');
+    super(message, 401, ErrorCode.UNAUTHORIZED);
   }
 }
 
@@ -56,7 +72,7 @@ export class UnauthorizedError extends ApiError {
  */
 export class ForbiddenError extends ApiError {
   constructor(message: string = 'Access denied') {
-    super(message, 403, 'FORBIDDEN');
+    super(message, 403, ErrorCode.FORBIDDEN);
   }
 }
 
@@ -65,7 +81,21 @@ export class ForbiddenError extends ApiError {
  */
 export class ConflictError extends ApiError {
   constructor(message: string = 'Resource already exists') {
-    super(message, 409, 'CONFLICT');
+    super(message, 409, ErrorCode.CONFLICT);
+  }
+}
+
+/**
+ * Bid rejected error
+ */
+export class BidRejectedError extends ApiError {
+  constructor(
+    message: string,
+    code: ErrorCode,
+    statusCode: number = 400,
+    details?: IErrorDetails
+  ) {
+    super(message, statusCode, code, details);
   }
 }
 
@@ -88,28 +118,30 @@ export const errorHandler = (
 ): void => {
   let statusCode = err.statusCode || 500;
   let message = err.message || 'Internal Server Error';
-  let code = err.code || 'INTERNAL_ERROR';
+  let code = err instanceof ApiError ? err.code : ErrorCode.INTERNAL_ERROR;
 
   // Handle Mongoose validation errors
   if (err.name === 'ValidationError') {
     statusCode = 400;
-    code = 'VALIDATION_ERROR';
+    code = ErrorCode.VALIDATION_ERROR;
   }
 
   // Handle Mongoose duplicate key error
   if ((err as any).code === 11000) {
     statusCode = 409;
     message = 'Duplicate entry found';
-    code = 'DUPLICATE_ERROR';
+    code = ErrorCode.DUPLICATE_ERROR;
   }
 
   // Handle Mongoose cast error (invalid ObjectId)
   if (err.name === 'CastError') {
     statusCode = 400;
     message = 'Invalid ID format';
-    code = 'INVALID_ID';
+    code = ErrorCode.INVALID_ID;
   }
 
+  const payload: IErrorPayload = { code, message, ...err.details };
+
   // Log error in development
   if (process.env.NODE_ENV === 'development') {
     console.error('Error:', {
@@ -121,8 +153,7 @@ export const errorHandler = (
 
   res.status(statusCode).json({
     success: false,
-    message,
-    code,
+    ...payload,
     ...(process.env.NODE_ENV === 'development' && { stack: err.stack }),
   });
 };
@@ -134,6 +165,7 @@ export default {
   UnauthorizedError,
   ForbiddenError,
   ConflictError,
+  BidRejectedError,
   notFound,
   errorHandler,
 };
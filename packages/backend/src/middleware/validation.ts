@@ -1,6 +1,13 @@
 import { body, param, query, validationResult } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
-import { SportType, UserRole } from '../types';
+import {
+  AuctionFormat,
+  DraftOrderType,
+  ErrorCode,
+  SportType,
+  UserRole,
+  WishlistPriority,
+} from '../types';
 
 /**
  * Middleware to handle validation errors
@@ -16,6 +23,7 @@ export const handleValidationErrors = (
     res.status(400).json({
       success: false,
       message: 'Validation failed',
+      code: ErrorCode.VALIDATION_ERROR,
       errors: errors.array().map((err) => ({
         field: (err as any).path,
         message: err.msg,
@@ -75,12 +83,32 @@ export const createAuctionValidation = [
   body('sportType')
     .isIn(Object.values(SportType))
     .withMessage('Invalid sport type'),
+  body('format')
+    .optional()
+    .isIn(Object.values(AuctionFormat))
+    .withMessage('Invalid auction format'),
+  body('draftOrderType')
+    .optional()
+    .isIn(Object.values(DraftOrderType))
+    .withMessage('Draft order must be snake or linear'),
   body('password')
     .isLength({ min: 4 })
     .withMessage('Password must be at least 4 characters'),
   body('bidIncrementAmount')
     .isInt({ min: 1 })
     .withMessage('Bid increment must be a positive integer'),
+  body('bidIncrementTiers')
+    .optional()
+    .isArray()
+    .withMessage('Bid increment tiers must be an array'),
+  body('bidIncrementTiers.*.from')
+    .isInt({ min: 0 })
+    .withMessage('Bid increment tier threshold must be a non-negative integer')
+    .toInt(),
+  body('bidIncrementTiers.*.increment')
+    .isInt({ min: 1 })
+    .withMessage('Bid increment must be a positive integer')
+    .toInt(),
   body('teamBudget')
     .isInt({ min: 1 })
     .withMessage('Team budget must be a positive integer'),
@@ -88,6 +116,23 @@ export const createAuctionValidation = [
     .optional()
     .isInt({ min: 10, max: 120 })
     .withMessage('Bid timer must be between 10 and 120 seconds'),
+  body('softClose.windowSeconds')
+    .optional()
+    .isInt({ min: 1, max: 120 })
+    .withMessage('Soft-close window must be between 1 and 120 seconds'),
+  body('softClose.extensionSeconds')
+    .optional()
+    .isInt({ min: 1, max: 120 })
+    .withMessage('Soft-close extension must be between 1 and 120 seconds'),
+  body('softClose.maxExtensionSeconds')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Maximum soft-close extension must be a non-negative integer'),
+  body(['goingOnceSeconds', 'goingTwiceSeconds'])
+    .optional()
+    .isInt({ min: 1, max: 60 })
+    .withMessage('Going once and going twice must be called 1 to 60 seconds before the hammer')
+    .toInt(),
   body('basePriceTiers')
     .optional()
     .isArray({ min: 1 })
@@ -102,6 +147,39 @@ export const createAuctionValidation = [
     .trim()
     .notEmpty()
     .withMessage('Base price tier name is required'),
+  body('maxPlayersPerTeam')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Max players per team must be a positive integer'),
+  body('squadRules.roleLimits')
+    .optional()
+    .isArray()
+    .withMessage('Role limits must be an array'),
+  body('squadRules.roleLimits.*.role')
+    .optional()
+    .isString()
+    .notEmpty()
+    .withMessage('Role limit must name a role'),
+  body(['squadRules.roleLimits.*.min', 'squadRules.roleLimits.*.max'])
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Role limits must be non-negative integers'),
+  body('squadRules.maxOverseasPlayers')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Max overseas players must be a non-negative integer'),
+  body('rtmCardsPerTeam')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Right-to-Match cards must be a non-negative integer'),
+  body('rtmWindowSeconds')
+    .optional()
+    .isInt({ min: 5, max: 60 })
+    .withMessage('Right-to-Match window must be between 5 and 60 seconds'),
+  body('maxRetentionsPerTeam')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Retentions per team must be a non-negative integer'),
   handleValidationErrors,
 ];
 
@@ -118,6 +196,149 @@ export const updateAuctionValidation = [
     .optional()
     .isInt({ min: 10, max: 120 })
     .withMessage('Bid timer must be between 10 and 120 seconds'),
+  body('softClose.windowSeconds')
+    .optional()
+    .isInt({ min: 1, max: 120 })
+    .withMessage('Soft-close window must be between 1 and 120 seconds'),
+  body('softClose.extensionSeconds')
+    .optional()
+    .isInt({ min: 1, max: 120 })
+    .withMessage('Soft-close extension must be between 1 and 120 seconds'),
+  body('softClose.maxExtensionSeconds')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Maximum soft-close extension must be a non-negative integer'),
+  body(['goingOnceSeconds', 'goingTwiceSeconds'])
+    .optional()
+    .isInt({ min: 1, max: 60 })
+    .withMessage('Going once and going twice must be called 1 to 60 seconds before the hammer')
+    .toInt(),
+  handleValidationErrors,
+];
+
+export const playerSetsValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid auction ID'),
+  body('sets')
+    .isArray()
+    .withMessage('Sets must be an array'),
+  body('sets.*.name')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Set name must be between 1 and 50 characters'),
+  body('sets.*.randomiseOrder')
+    .optional()
+    .isBoolean()
+    .withMessage('Randomise order must be a boolean'),
+  body('sets.*.playerIds')
+    .isArray()
+    .withMessage('Set players must be an array'),
+  body('sets.*.playerIds.*')
+    .isMongoId()
+    .withMessage('Invalid player ID'),
+  handleValidationErrors,
+];
+
+export const draftOrderValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid auction ID'),
+  body('teamIds')
+    .isArray({ min: 1 })
+    .withMessage('Draft order must list the teams'),
+  body('teamIds.*')
+    .isMongoId()
+    .withMessage('Invalid team ID'),
+  body('orderType')
+    .optional()
+    .isIn(Object.values(DraftOrderType))
+    .withMessage('Draft order must be snake or linear'),
+  handleValidationErrors,
+];
+
+export const openRoundValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid auction ID'),
+  body('playerIds')
+    .optional()
+    .isArray()
+    .withMessage('Player IDs must be an array'),
+  body('playerIds.*')
+    .isMongoId()
+    .withMessage('Invalid player ID'),
+  body('basePrice')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Base price must be a non-negative integer')
+    .toInt(),
+  body('bidTimerSeconds')
+    .optional()
+    .isInt({ min: 5, max: 120 })
+    .withMessage('Bid timer must be between 5 and 120 seconds')
+    .toInt(),
+  handleValidationErrors,
+];
+
+export const undoResultValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid auction ID'),
+  body('reason')
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage('Reason must be between 3 and 500 characters'),
+  handleValidationErrors,
+];
+
+export const reassignSaleValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid auction ID'),
+  body('playerId')
+    .isMongoId()
+    .withMessage('Invalid player ID'),
+  body('teamId')
+    .isMongoId()
+    .withMessage('Invalid team ID'),
+  body('reason')
+    .trim()
+    .isLength({ min: 3, max: 500 })
+    .withMessage('Reason must be between 3 and 500 characters'),
+  body('price')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Price must be a non-negative integer')
+    .toInt(),
+  handleValidationErrors,
+];
+
+export const retainPlayerValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid auction ID'),
+  body('teamId')
+    .isMongoId()
+    .withMessage('Invalid team ID'),
+  body('playerId')
+    .isMongoId()
+    .withMessage('Invalid player ID'),
+  body('price')
+    .isInt({ min: 0 })
+    .withMessage('Retention price must be a non-negative integer')
+    .toInt(),
+  handleValidationErrors,
+];
+
+export const releaseRetentionValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid auction ID'),
+  param('playerId')
+    .isMongoId()
+    .withMessage('Invalid player ID'),
   handleValidationErrors,
 ];
 
@@ -181,11 +402,47 @@ export const registerPlayerValidation = [
   handleValidationErrors,
 ];
 
+export const wishlistEntryValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid team ID'),
+  param('playerId')
+    .isMongoId()
+    .withMessage('Invalid player ID'),
+  body('priority')
+    .isIn(Object.values(WishlistPriority))
+    .withMessage('Invalid priority'),
+  body('targetPrice')
+    .optional({ values: 'null' })
+    .isInt({ min: 0 })
+    .withMessage('Target price must be a positive integer')
+    .toInt(),
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Notes cannot exceed 200 characters'),
+  handleValidationErrors,
+];
+
+export const removeWishlistEntryValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid team ID'),
+  param('playerId')
+    .isMongoId()
+    .withMessage('Invalid player ID'),
+  handleValidationErrors,
+];
+
 // ============================================
 // Bid Validators
 // ============================================
 
 export const placeBidValidation = [
+  body('auctionId')
+    .isMongoId()
+    .withMessage('Invalid auction ID'),
   body('playerId')
     .isMongoId()
     .withMessage('Invalid player ID'),
@@ -195,10 +452,45 @@ export const placeBidValidation = [
   handleValidationErrors,
 ];
 
+export const setProxyBidValidation = [
+  body('auctionId')
+    .isMongoId()
+    .withMessage('Invalid auction ID'),
+  body('playerId')
+    .isMongoId()
+    .withMessage('Invalid player ID'),
+  body('maxAmount')
+    .isInt({ min: 0 })
+    .withMessage('Proxy ceiling must be a positive integer')
+    .toInt(),
+  handleValidationErrors,
+];
+
+export const cancelProxyBidValidation = [
+  param('playerId')
+    .isMongoId()
+    .withMessage('Invalid player ID'),
+  query('auctionId')
+    .isMongoId()
+    .withMessage('Invalid auction ID'),
+  handleValidationErrors,
+];
+
 // ============================================
 // Common Validators
 // ============================================
 
+export const previousTeamValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid player ID'),
+  body('teamId')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Invalid team ID'),
+  handleValidationErrors,
+];
+
 export const mongoIdValidation = (fieldName: string = 'id') => [
   param(fieldName)
     .isMongoId()
@@ -227,7 +519,19 @@ export default {
   auctionIdValidation,
   registerTeamValidation,
   registerPlayerValidation,
+  wishlistEntryValidation,
+  removeWishlistEntryValidation,
   placeBidValidation,
+  setProxyBidValidation,
+  cancelProxyBidValidation,
+  previousTeamValidation,
+  playerSetsValidation,
+  draftOrderValidation,
+  openRoundValidation,
+  undoResultValidation,
+  reassignSaleValidation,
+  retainPlayerValidation,
+  releaseRetentionValidation,
   mongoIdValidation,
   paginationValidation,
 };
@@ -3,10 +3,18 @@ import bcrypt from 'bcryptjs';
 import {
   IAuction,
   AuctionStatus,
+  AuctionFormat,
+  DraftOrderType,
   SportType,
   CricketRole,
   IBasePriceTier,
+  IBidIncrementTier,
   ISportConfig,
+  IRoleLimit,
+  ISquadRules,
+  ISoftCloseRules,
+  IPendingRightToMatch,
+  IPlayerSet,
 } from '../types';
 
 // Sport-specific default configurations
@@ -74,6 +82,113 @@ const sportConfigSchema = new Schema<ISportConfig>(
   { _id: false }
 );
 
+const bidIncrementTierSchema = new Schema<IBidIncrementTier>(
+  {
+    from: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    increment: {
+      type: Number,
+      required: true,
+      min: [1, 'Bid increment must be positive'],
+    },
+  },
+  { _id: false }
+);
+
+const roleLimitSchema = new Schema<IRoleLimit>(
+  {
+    role: {
+      type: String,
+      required: true,
+    },
+    min: {
+      type: Number,
+      min: 0,
+    },
+    max: {
+      type: Number,
+      min: 0,
+    },
+  },
+  { _id: false }
+);
+
+const squadRulesSchema = new Schema<ISquadRules>(
+  {
+    roleLimits: {
+      type: [roleLimitSchema],
+      default: [],
+    },
+    maxOverseasPlayers: {
+      type: Number,
+      min: 0,
+    },
+    homeNationality: {
+      type: String,
+      trim: true,
+    },
+  },
+  { _id: false }
+);
+
+const softCloseRulesSchema = new Schema<ISoftCloseRules>(
+  {
+    windowSeconds: {
+      type: Number,
+      required: true,
+      min: [1, 'Soft-close window must be at least 1 second'],
+    },
+    extensionSeconds: {
+      type: Number,
+      required: true,
+      min: [1, 'Soft-close extension must be at least 1 second'],
+    },
+    maxExtensionSeconds: {
+      type: Number,
+      required: true,
+      min: [0, 'Maximum soft-close extension cannot be negative'],
+    },
+  },
+  { _id: false }
+);
+
+const pendingRightToMatchSchema = new Schema<IPendingRightToMatch>(
+  {
+    player: {
+      type: Schema.Types.ObjectId,
+      ref: 'PlayerRegistration',
+      required: true,
+    },
+    team: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+      required: true,
+    },
+    bid: {
+      type: Schema.Types.ObjectId,
+      ref: 'Bid',
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const playerSetSchema = new Schema<IPlayerSet>({
+  name: {
+    type: String,
+    required: [true, 'Set name is required'],
+    trim: true,
+    maxlength: [50, 'Set name cannot exceed 50 characters'],
+  },
+  randomiseOrder: {
+    type: Boolean,
+    default: false,
+  },
+});
+
 const auctionSchema = new Schema<IAuction>(
   {
     name: {
@@ -93,6 +208,11 @@ const auctionSchema = new Schema<IAuction>(
       required: [true, 'Sport type is required'],
       default: SportType.CRICKET,
     },
+    format: {
+      type: String,
+      enum: Object.values(AuctionFormat),
+      default: AuctionFormat.OPEN,
+    },
     sportConfig: {
       type: sportConfigSchema,
       required: true,
@@ -113,6 +233,10 @@ const auctionSchema = new Schema<IAuction>(
       required: [true, 'Bid increment amount is required'],
       min: [1, 'Bid increment must be positive'],
     },
+    bidIncrementTiers: {
+      type: [bidIncrementTierSchema],
+      default: [],
+    },
     teamBudget: {
       type: Number,
       required: [true, 'Team budget is required'],
@@ -129,6 +253,32 @@ const auctionSchema = new Schema<IAuction>(
       min: [10, 'Bid timer must be at least 10 seconds'],
       max: [120, 'Bid timer cannot exceed 120 seconds'],
     },
+    softClose: {
+      type: softCloseRulesSchema,
+    },
+    lotExtensionSeconds: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    goingOnceSeconds: {
+      type: Number,
+      default: 10,
+      min: [1, 'Going once must be called at least 1 second before the hammer'],
+      max: [60, 'Going once cannot be called more than 60 seconds before the hammer'],
+    },
+    goingTwiceSeconds: {
+      type: Number,
+      default: 5,
+      min: [1, 'Going twice must be called at least 1 second before the hammer'],
+      max: [60, 'Going twice cannot be called more than 60 seconds before the hammer'],
+    },
+    lotPasses: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Team',
+      },
+    ],
     maxTeams: {
       type: Number,
       min: [2, 'Must allow at least 2 teams'],
@@ -137,6 +287,25 @@ const auctionSchema = new Schema<IAuction>(
       type: Number,
       min: [1, 'Must allow at least 1 player per team'],
     },
+    squadRules: {
+      type: squadRulesSchema,
+    },
+    rtmCardsPerTeam: {
+      type: Number,
+      default: 0,
+      min: [0, 'Right-to-Match cards cannot be negative'],
+    },
+    rtmWindowSeconds: {
+      type: Number,
+      default: 15,
+      min: [5, 'Right-to-Match window must be at least 5 seconds'],
+      max: [60, 'Right-to-Match window cannot exceed 60 seconds'],
+    },
+    maxRetentionsPerTeam: {
+      type: Number,
+      default: 0,
+      min: [0, 'Retentions per team cannot be negative'],
+    },
     scheduledStartTime: {
       type: Date,
     },
@@ -150,6 +319,63 @@ const auctionSchema = new Schema<IAuction>(
       type: Schema.Types.ObjectId,
       ref: 'PlayerRegistration',
     },
+    biddingEndsAt: {
+      type: Date,
+    },
+    pausedTimeRemaining: {
+      type: Number,
+      min: 0,
+    },
+    pendingRightToMatch: {
+      type: pendingRightToMatchSchema,
+    },
+    currentRound: {
+      type: Number,
+      default: 1,
+      min: 1,
+    },
+    roundBidTimerSeconds: {
+      type: Number,
+      min: [5, 'Bid timer must be at least 5 seconds'],
+      max: [120, 'Bid timer cannot exceed 120 seconds'],
+    },
+    playerSets: {
+      type: [playerSetSchema],
+      default: [],
+    },
+    currentSet: {
+      type: Schema.Types.ObjectId,
+    },
+    autoRun: {
+      type: Boolean,
+      default: false,
+    },
+    autoRunGapSeconds: {
+      type: Number,
+      default: 5,
+      min: [0, 'Auto-run gap cannot be negative'],
+      max: [60, 'Auto-run gap cannot exceed 60 seconds'],
+    },
+    draftOrderType: {
+      type: String,
+      enum: Object.values(DraftOrderType),
+      default: DraftOrderType.SNAKE,
+    },
+    draftOrder: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Team',
+      },
+    ],
+    currentPick: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    eventSeq: {
+      type: Number,
+      default: 0,
+    },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
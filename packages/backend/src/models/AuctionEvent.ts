@@ -0,0 +1,39 @@
+import mongoose, { Schema } from 'mongoose';
+import { IAuctionEvent } from '../types';
+
+// Events are kept long enough to replay them to clients that reconnect
+export const EVENT_RETENTION_SECONDS = 15 * 60;
+
+const auctionEventSchema = new Schema<IAuctionEvent>(
+  {
+    auction: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auction',
+      required: true,
+    },
+    seq: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    event: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+auctionEventSchema.index({ auction: 1, seq: 1 }, { unique: true });
+auctionEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: EVENT_RETENTION_SECONDS });
+
+const AuctionEvent = mongoose.model<IAuctionEvent>('AuctionEvent', auctionEventSchema);
+
+export default AuctionEvent;
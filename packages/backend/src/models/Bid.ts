@@ -37,6 +37,22 @@ const bidSchema = new Schema<IBid>(
       type: Number,
       required: true,
     },
+    isRightToMatch: {
+      type: Boolean,
+      default: false,
+    },
+    isProxy: {
+      type: Boolean,
+      default: false,
+    },
+    isSealed: {
+      type: Boolean,
+      default: false,
+    },
+    idempotencyKey: {
+      type: String,
+      maxlength: 100,
+    },
     timestamp: {
       type: Date,
       default: Date.now,
@@ -59,10 +75,20 @@ bidSchema.index({ auction: 1, player: 1, timestamp: -1 });
 bidSchema.index({ auction: 1, team: 1 });
 bidSchema.index({ player: 1, status: 1 });
 bidSchema.index({ timestamp: -1 });
+// One open sealed bid per team on a lot
+bidSchema.index(
+  { player: 1, team: 1 },
+  { unique: true, partialFilterExpression: { isSealed: true, status: BidStatus.ACTIVE } }
+);
+// Claims a retried bid's key, so only one attempt is ever placed
+bidSchema.index(
+  { team: 1, idempotencyKey: 1 },
+  { unique: true, partialFilterExpression: { idempotencyKey: { $exists: true } } }
+);
 
 // Pre-save middleware to set bid number
 bidSchema.pre('save', async function (next) {
-  if (this.isNew) {
+  if (this.isNew && !this.bidNumber) {
     // Get the count of existing bids for this player
     const count = await Bid.countDocuments({
       auction: this.auction,
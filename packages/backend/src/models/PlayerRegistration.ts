@@ -72,10 +72,50 @@ const playerRegistrationSchema = new Schema<IPlayerRegistration>(
       type: Schema.Types.ObjectId,
       ref: 'Team',
     },
+    previousTeam: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+    },
+    soldInRound: {
+      type: Number,
+      min: 1,
+    },
+    resultAt: {
+      type: Date,
+    },
+    currentBid: {
+      type: Number,
+      min: 0,
+    },
+    currentBidTeam: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+    },
+    bidVersion: {
+      type: Number,
+      default: 0,
+    },
+    acceptedBids: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Bid',
+      },
+    ],
     registrationOrder: {
       type: Number,
       required: true,
     },
+    playerSet: {
+      type: Schema.Types.ObjectId,
+    },
+    setPosition: {
+      type: Number,
+      min: 0,
+    },
+    draftPick: {
+      type: Number,
+      min: 1,
+    },
     profile: {
       type: playerProfileSchema,
       default: {},
@@ -0,0 +1,54 @@
+import mongoose, { Schema } from 'mongoose';
+import { IProxyBid } from '../types';
+
+const proxyBidSchema = new Schema<IProxyBid>(
+  {
+    auction: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auction',
+      required: true,
+    },
+    player: {
+      type: Schema.Types.ObjectId,
+      ref: 'PlayerRegistration',
+      required: true,
+    },
+    team: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+      required: true,
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    maxAmount: {
+      type: Number,
+      required: [true, 'Proxy ceiling is required'],
+      min: [0, 'Proxy ceiling must be positive'],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_, ret: Record<string, unknown>) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// A team has at most one proxy ceiling per player
+proxyBidSchema.index({ player: 1, team: 1 }, { unique: true });
+proxyBidSchema.index({ auction: 1, owner: 1 });
+
+const ProxyBid = mongoose.model<IProxyBid>('ProxyBid', proxyBidSchema);
+
+export default ProxyBid;
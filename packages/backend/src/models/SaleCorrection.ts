@@ -0,0 +1,70 @@
+import mongoose, { Schema } from 'mongoose';
+import { ISaleCorrection, CorrectionAction, PlayerAuctionStatus } from '../types';
+
+const saleCorrectionSchema = new Schema<ISaleCorrection>(
+  {
+    auction: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auction',
+      required: true,
+    },
+    player: {
+      type: Schema.Types.ObjectId,
+      ref: 'PlayerRegistration',
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: Object.values(CorrectionAction),
+      required: true,
+    },
+    previousStatus: {
+      type: String,
+      enum: Object.values(PlayerAuctionStatus),
+      required: true,
+    },
+    fromTeam: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+    },
+    toTeam: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+    },
+    previousPrice: {
+      type: Number,
+      min: 0,
+    },
+    newPrice: {
+      type: Number,
+      min: 0,
+    },
+    reason: {
+      type: String,
+      required: [true, 'A reason is required for corrections'],
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+    correctedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_, ret: Record<string, unknown>) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+saleCorrectionSchema.index({ auction: 1, createdAt: -1 });
+
+const SaleCorrection = mongoose.model<ISaleCorrection>('SaleCorrection', saleCorrectionSchema);
+
+export default SaleCorrection;
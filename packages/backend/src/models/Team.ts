@@ -1,5 +1,5 @@
 import mongoose, { Schema, Model } from 'mongoose';
-import { ITeam, IAcquiredPlayer } from '../types';
+import { ITeam, IAcquiredPlayer, AcquisitionSource } from '../types';
 
 const acquiredPlayerSchema = new Schema<IAcquiredPlayer>(
   {
@@ -17,6 +17,11 @@ const acquiredPlayerSchema = new Schema<IAcquiredPlayer>(
       type: Date,
       default: Date.now,
     },
+    source: {
+      type: String,
+      enum: Object.values(AcquisitionSource),
+      default: AcquisitionSource.AUCTION,
+    },
   },
   { _id: false }
 );
@@ -119,6 +124,7 @@ teamSchema.methods.addPlayer = async function (
     player: playerId,
     soldPrice,
     acquiredAt: new Date(),
+    source: AcquisitionSource.AUCTION,
   });
   this.remainingBudget -= soldPrice;
   await this.save();
@@ -0,0 +1,53 @@
+import mongoose, { Schema } from 'mongoose';
+import { IWishlistEntry, WishlistPriority } from '../types';
+
+const wishlistEntrySchema = new Schema<IWishlistEntry>(
+  {
+    auction: {
+      type: Schema.Types.ObjectId,
+      ref: 'Auction',
+      required: true,
+    },
+    team: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+      required: true,
+    },
+    player: {
+      type: Schema.Types.ObjectId,
+      ref: 'PlayerRegistration',
+      required: true,
+    },
+    priority: {
+      type: String,
+      enum: Object.values(WishlistPriority),
+      default: WishlistPriority.MEDIUM,
+    },
+    targetPrice: {
+      type: Number,
+      min: [0, 'Target price must be positive'],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Notes cannot exceed 200 characters'],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_, ret: Record<string, unknown>) => {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// A player appears at most once on a team's wishlist
+wishlistEntrySchema.index({ team: 1, player: 1 }, { unique: true });
+
+const WishlistEntry = mongoose.model<IWishlistEntry>('WishlistEntry', wishlistEntrySchema);
+
+export default WishlistEntry;
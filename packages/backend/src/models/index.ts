@@ -3,3 +3,7 @@ export { default as Auction, SPORT_CONFIGS, DEFAULT_CRICKET_BASE_PRICES } from '
 export { default as Team } from './Team';
 export { default as PlayerRegistration } from './PlayerRegistration';
 export { default as Bid } from './Bid';
+export { default as SaleCorrection } from './SaleCorrection';
+export { default as ProxyBid } from './ProxyBid';
+export { default as WishlistEntry } from './WishlistEntry';
+export { default as AuctionEvent } from './AuctionEvent';
@@ -6,6 +6,13 @@ import {
   updateAuctionValidation,
   auctionIdValidation,
   paginationValidation,
+  playerSetsValidation,
+  draftOrderValidation,
+  openRoundValidation,
+  undoResultValidation,
+  reassignSaleValidation,
+  retainPlayerValidation,
+  releaseRetentionValidation,
 } from '../middleware/validation';
 
 const router = Router();
@@ -96,6 +103,148 @@ router.post(
   auctionController.pauseAuction
 );
 
+/**
+ * @route   POST /api/auctions/:id/withdraw-player
+ * @desc    Withdraw the player on the block back to the pool
+ * @access  Private (Admin/Owner)
+ */
+router.post(
+  '/:id/withdraw-player',
+  authenticate,
+  adminOnly,
+  auctionIdValidation,
+  auctionController.withdrawPlayer
+);
+
+/**
+ * @route   GET /api/auctions/:id/sets
+ * @desc    Get player sets and the nomination queue
+ * @access  Private (Admin/Owner)
+ */
+router.get(
+  '/:id/sets',
+  authenticate,
+  adminOnly,
+  auctionIdValidation,
+  auctionController.getPlayerSets
+);
+
+/**
+ * @route   PUT /api/auctions/:id/sets
+ * @desc    Replace player sets and their nomination order
+ * @access  Private (Admin/Owner)
+ */
+router.put(
+  '/:id/sets',
+  authenticate,
+  adminOnly,
+  playerSetsValidation,
+  auctionController.updatePlayerSets
+);
+
+/**
+ * @route   GET /api/auctions/:id/draft
+ * @desc    Get the draft board (pick order and picks made)
+ * @access  Private
+ */
+router.get(
+  '/:id/draft',
+  authenticate,
+  auctionIdValidation,
+  auctionController.getDraftBoard
+);
+
+/**
+ * @route   PUT /api/auctions/:id/draft-order
+ * @desc    Set the first-round pick order of a draft
+ * @access  Private (Admin/Owner)
+ */
+router.put(
+  '/:id/draft-order',
+  authenticate,
+  adminOnly,
+  draftOrderValidation,
+  auctionController.setDraftOrder
+);
+
+/**
+ * @route   POST /api/auctions/:id/rounds
+ * @desc    Open an accelerated round for unsold players
+ * @access  Private (Admin/Owner)
+ */
+router.post(
+  '/:id/rounds',
+  authenticate,
+  adminOnly,
+  openRoundValidation,
+  auctionController.openAcceleratedRound
+);
+
+/**
+ * @route   GET /api/auctions/:id/corrections
+ * @desc    Get the result correction history
+ * @access  Private (Admin/Owner)
+ */
+router.get(
+  '/:id/corrections',
+  authenticate,
+  adminOnly,
+  auctionIdValidation,
+  auctionController.getCorrections
+);
+
+/**
+ * @route   POST /api/auctions/:id/corrections/undo
+ * @desc    Undo the most recent sold/unsold result
+ * @access  Private (Admin/Owner)
+ */
+router.post(
+  '/:id/corrections/undo',
+  authenticate,
+  adminOnly,
+  undoResultValidation,
+  auctionController.undoLastResult
+);
+
+/**
+ * @route   POST /api/auctions/:id/corrections/reassign
+ * @desc    Reassign a sold player to another team
+ * @access  Private (Admin/Owner)
+ */
+router.post(
+  '/:id/corrections/reassign',
+  authenticate,
+  adminOnly,
+  reassignSaleValidation,
+  auctionController.reassignSale
+);
+
+/**
+ * @route   POST /api/auctions/:id/retentions
+ * @desc    Retain a player for a team before the auction starts
+ * @access  Private (Admin/Owner)
+ */
+router.post(
+  '/:id/retentions',
+  authenticate,
+  adminOnly,
+  retainPlayerValidation,
+  auctionController.retainPlayer
+);
+
+/**
+ * @route   DELETE /api/auctions/:id/retentions/:playerId
+ * @desc    Release a retained player back into the auction pool
+ * @access  Private (Admin/Owner)
+ */
+router.delete(
+  '/:id/retentions/:playerId',
+  authenticate,
+  adminOnly,
+  releaseRetentionValidation,
+  auctionController.releaseRetention
+);
+
 /**
  * @route   POST /api/auctions/:id/end
  * @desc    End auction
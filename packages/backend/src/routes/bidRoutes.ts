@@ -1,7 +1,13 @@
 import { Router } from 'express';
 import { bidController } from '../controllers';
 import { authenticate, teamOwnerOnly } from '../middleware/auth';
-import { placeBidValidation, mongoIdValidation, paginationValidation } from '../middleware/validation';
+import {
+  placeBidValidation,
+  setProxyBidValidation,
+  cancelProxyBidValidation,
+  mongoIdValidation,
+  paginationValidation,
+} from '../middleware/validation';
 
 const router = Router();
 
@@ -18,6 +24,45 @@ router.post(
   bidController.placeBid
 );
 
+/**
+ * @route   PUT /api/bids/proxy
+ * @desc    Set a proxy ceiling that bids automatically for a player
+ * @access  Private (Team Owner)
+ */
+router.put(
+  '/proxy',
+  authenticate,
+  teamOwnerOnly,
+  setProxyBidValidation,
+  bidController.setProxyBid
+);
+
+/**
+ * @route   GET /api/bids/proxy/auction/:auctionId
+ * @desc    Get the current user's proxy ceilings in an auction
+ * @access  Private (Team Owner)
+ */
+router.get(
+  '/proxy/auction/:auctionId',
+  authenticate,
+  teamOwnerOnly,
+  mongoIdValidation('auctionId'),
+  bidController.getMyProxyBids
+);
+
+/**
+ * @route   DELETE /api/bids/proxy/:playerId
+ * @desc    Cancel a proxy ceiling
+ * @access  Private (Team Owner)
+ */
+router.delete(
+  '/proxy/:playerId',
+  authenticate,
+  teamOwnerOnly,
+  cancelProxyBidValidation,
+  bidController.cancelProxyBid
+);
+
 /**
  * @route   GET /api/bids/player/:playerId
  * @desc    Get bid history for a player
@@ -5,6 +5,7 @@ import {
   registerPlayerValidation,
   mongoIdValidation,
   paginationValidation,
+  previousTeamValidation,
 } from '../middleware/validation';
 
 const router = Router();
@@ -116,4 +117,17 @@ router.post(
   playerController.putPlayerOnBlock
 );
 
+/**
+ * @route   PUT /api/players/:id/previous-team
+ * @desc    Set the team a player last played for (eligible for Right-to-Match)
+ * @access  Private (Admin)
+ */
+router.put(
+  '/:id/previous-team',
+  authenticate,
+  adminOnly,
+  previousTeamValidation,
+  playerController.setPreviousTeam
+);
+
 export default router;
@@ -1,7 +1,12 @@
 import { Router } from 'express';
 import { teamController } from '../controllers';
 import { authenticate, teamOwnerOnly, teamOwnerOrAdmin } from '../middleware/auth';
-import { registerTeamValidation, mongoIdValidation } from '../middleware/validation';
+import {
+  registerTeamValidation,
+  wishlistEntryValidation,
+  removeWishlistEntryValidation,
+  mongoIdValidation,
+} from '../middleware/validation';
 
 const router = Router();
 
@@ -56,6 +61,45 @@ router.get(
   teamController.getTeamPlayers
 );
 
+/**
+ * @route   GET /api/teams/:id/wishlist
+ * @desc    Get team's private wishlist
+ * @access  Private (Team Owner)
+ */
+router.get(
+  '/:id/wishlist',
+  authenticate,
+  teamOwnerOnly,
+  mongoIdValidation(),
+  teamController.getWishlist
+);
+
+/**
+ * @route   PUT /api/teams/:id/wishlist/:playerId
+ * @desc    Shortlist a player with a priority and target price
+ * @access  Private (Team Owner)
+ */
+router.put(
+  '/:id/wishlist/:playerId',
+  authenticate,
+  teamOwnerOnly,
+  wishlistEntryValidation,
+  teamController.saveWishlistEntry
+);
+
+/**
+ * @route   DELETE /api/teams/:id/wishlist/:playerId
+ * @desc    Remove a player from team's wishlist
+ * @access  Private (Team Owner)
+ */
+router.delete(
+  '/:id/wishlist/:playerId',
+  authenticate,
+  teamOwnerOnly,
+  removeWishlistEntryValidation,
+  teamController.removeWishlistEntry
+);
+
 /**
  * @route   PUT /api/teams/:id
  * @desc    Update team
@@ -0,0 +1,250 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Types } from 'mongoose';
+import { Auction, Bid, PlayerRegistration, Team } from '../../models';
+import {
+  AuctionFormat,
+  AuctionStatus,
+  BidStatus,
+  ErrorCode,
+  IBid,
+  IPlayerRegistration,
+  PlayerAuctionStatus,
+} from '../../types';
+import { BidRejectedError } from '../../middleware/errorHandler';
+import { findBidByIdempotencyKey, getVisibleBid, placeBid } from '../bidService';
+
+jest.mock('../../models', () => ({
+  Auction: { findById: jest.fn() },
+  Bid: { create: jest.fn(), deleteOne: jest.fn(), findOne: jest.fn(), updateMany: jest.fn() },
+  PlayerRegistration: { exists: jest.fn(), findById: jest.fn(), findOneAndUpdate: jest.fn() },
+  ProxyBid: {},
+  Team: { findOne: jest.fn() },
+}));
+
+jest.mock('../squadService', () => ({
+  getSquadViolation: jest.fn(async () => null),
+}));
+
+// In-memory stand-ins for the documents placeBid reads and writes. Reads
+// return a snapshot, the registration update applies the version check and
+// the write in one step, and bids keep the unique idempotency index, as
+// MongoDB does.
+
+const auctionId = new Types.ObjectId().toString();
+const playerId = new Types.ObjectId().toString();
+const teams = [new Types.ObjectId(), new Types.ObjectId()].map((_id, index) => ({
+  _id,
+  name: `Team ${index + 1}`,
+  remainingBudget: 1000,
+  acquiredPlayers: [],
+}));
+
+let format: AuctionFormat;
+let registration: Partial<IPlayerRegistration>;
+let bids: Partial<IBid>[];
+
+// Filter and update the registration claim is made with
+interface RegistrationFilter {
+  status: PlayerAuctionStatus;
+  bidVersion?: unknown;
+}
+
+interface RegistrationUpdate {
+  $set?: Partial<IPlayerRegistration>;
+  $inc: { bidVersion: number };
+  $push?: { acceptedBids: Types.ObjectId };
+}
+
+const query = (resolve: () => unknown) => ({ populate: async () => resolve() });
+
+const matchesVersion = (version: unknown, filter: unknown): boolean => {
+  if (filter && typeof filter === 'object' && '$in' in filter) {
+    return (filter.$in as unknown[]).includes(version ?? null);
+  }
+  return version === filter;
+};
+
+beforeEach(() => {
+  registration = {
+    _id: new Types.ObjectId(playerId),
+    auction: new Types.ObjectId(auctionId),
+    status: PlayerAuctionStatus.IN_AUCTION,
+    basePrice: 100,
+    bidVersion: 0,
+    acceptedBids: [],
+    user: { name: 'Player' } as never, // Populated
+  };
+  bids = [];
+  format = AuctionFormat.OPEN;
+
+  jest.mocked(Auction.findById).mockImplementation((async () => ({
+    _id: auctionId,
+    status: AuctionStatus.LIVE,
+    format,
+    bidIncrementAmount: 10,
+    bidIncrementTiers: [],
+    lotPasses: [],
+  })) as never);
+
+  jest
+    .mocked(PlayerRegistration.findById)
+    .mockImplementation((() => query(() => ({ ...registration }))) as never);
+
+  jest
+    .mocked(PlayerRegistration.findOneAndUpdate)
+    .mockImplementation(((filter: RegistrationFilter, update: RegistrationUpdate) =>
+      query(() => {
+        if (
+          registration.status !== filter.status ||
+          ('bidVersion' in filter && !matchesVersion(registration.bidVersion, filter.bidVersion))
+        ) {
+          return null;
+        }
+        Object.assign(registration, update.$set);
+        registration.bidVersion = (registration.bidVersion ?? 0) + update.$inc.bidVersion;
+        if (update.$push) {
+          registration.acceptedBids = [
+            ...(registration.acceptedBids ?? []),
+            update.$push.acceptedBids,
+          ];
+        }
+        return { ...registration };
+      })) as never);
+
+  jest
+    .mocked(Team.findOne)
+    .mockImplementation((async (filter: { _id: string }) =>
+      teams.find((team) => team._id.toString() === filter._id)) as never);
+
+  jest
+    .mocked(PlayerRegistration.exists)
+    .mockImplementation((async (filter: { acceptedBids: Types.ObjectId }) =>
+      registration.acceptedBids?.some((id) => id.equals(filter.acceptedBids))
+        ? { _id: registration._id }
+        : null) as never);
+
+  jest.mocked(Bid.create).mockImplementation((async (doc: Partial<IBid>) => {
+    if (doc.idempotencyKey && findBid(String(doc.team), doc.idempotencyKey)) {
+      throw Object.assign(new Error('E11000'), {
+        code: 11000,
+        keyPattern: { team: 1, idempotencyKey: 1 },
+      });
+    }
+    const bid = { _id: new Types.ObjectId(), ...doc };
+    bids.push(bid);
+    return bid;
+  }) as never);
+
+  jest.mocked(Bid.deleteOne).mockImplementation((async (filter: { _id: Types.ObjectId }) => {
+    bids = bids.filter((bid) => !bid._id?.equals(filter._id));
+  }) as never);
+
+  jest
+    .mocked(Bid.findOne)
+    .mockImplementation((async (filter: { team: string; idempotencyKey: string }) =>
+      findBid(filter.team, filter.idempotencyKey) ?? null) as never);
+
+  jest.mocked(Bid.updateMany).mockImplementation((async () => undefined) as never);
+});
+
+const findBid = (teamId: string, idempotencyKey: string): Partial<IBid> | undefined =>
+  bids.find((bid) => String(bid.team) === teamId && bid.idempotencyKey === idempotencyKey);
+
+const bidFor = (teamIndex: number, amount: number, idempotencyKey?: string) =>
+  placeBid({
+    auctionId,
+    playerId,
+    teamId: teams[teamIndex]._id.toString(),
+    bidderId: new Types.ObjectId().toString(),
+    amount,
+    idempotencyKey,
+  });
+
+describe('placeBid', () => {
+  it('accepts exactly one of two bids placed at the same version', async () => {
+    const results = await Promise.allSettled([bidFor(0, 100), bidFor(1, 100)]);
+
+    const accepted = results.filter((result) => result.status === 'fulfilled');
+    const rejected = results.filter(
+      (result): result is PromiseRejectedResult => result.status === 'rejected'
+    );
+    expect(accepted).toHaveLength(1);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason).toBeInstanceOf(BidRejectedError);
+    expect(rejected[0].reason.code).toBe(ErrorCode.STALE_BID);
+
+    expect(registration.bidVersion).toBe(1);
+    expect(registration.currentBid).toBe(100);
+  });
+
+  it('keeps only the accepted bid on record', async () => {
+    await Promise.allSettled([bidFor(0, 100), bidFor(1, 120)]);
+
+    expect(bids).toHaveLength(1);
+    expect(bids[0].team).toEqual(registration.currentBidTeam);
+    expect(bids[0].amount).toBe(registration.currentBid);
+    expect(bids[0].bidNumber).toBe(registration.bidVersion);
+    expect(bids[0].status).toBe(BidStatus.ACTIVE);
+  });
+
+  it('accepts a higher bid once the first has been accepted', async () => {
+    await bidFor(0, 100);
+    const { player } = await bidFor(1, 110);
+
+    expect(player.bidVersion).toBe(2);
+    expect(player.currentBidTeam).toEqual(teams[1]._id);
+    expect(bids).toHaveLength(2);
+  });
+
+  it('rejects a bid below the minimum without writing it', async () => {
+    await bidFor(0, 100);
+
+    await expect(bidFor(1, 105)).rejects.toMatchObject({ code: ErrorCode.BID_TOO_LOW });
+    expect(bids).toHaveLength(1);
+  });
+});
+
+describe('findBidByIdempotencyKey', () => {
+  it('places a retried bid once and reports the original', async () => {
+    const results = await Promise.allSettled([bidFor(0, 100, 'key'), bidFor(0, 100, 'key')]);
+
+    const rejected = results.filter(
+      (result): result is PromiseRejectedResult => result.status === 'rejected'
+    );
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason.code).toBe(ErrorCode.DUPLICATE_ERROR);
+    expect(bids).toHaveLength(1);
+
+    const placed = await findBidByIdempotencyKey(teams[0]._id.toString(), 'key');
+    expect(placed?._id).toEqual(bids[0]._id);
+  });
+
+  it('reports no bid for a key whose bid lost the claim', async () => {
+    const keys = ['first', 'second'];
+    const results = await Promise.allSettled(keys.map((key, index) => bidFor(index, 100, key)));
+
+    const placed = await Promise.all(
+      keys.map((key, index) => findBidByIdempotencyKey(teams[index]._id.toString(), key))
+    );
+    expect(placed.map((bid) => bid !== null)).toEqual(
+      results.map((result) => result.status === 'fulfilled')
+    );
+    expect(placed.filter((bid) => bid !== null)).toHaveLength(1);
+  });
+});
+
+describe('getVisibleBid', () => {
+  it('shows the accepted bid and its team on an open lot', async () => {
+    const { auction, player } = await bidFor(0, 150);
+
+    expect(getVisibleBid(auction, player)).toEqual({ amount: 150, team: teams[0]._id });
+  });
+
+  it('shows only the base price on a sealed lot before the reveal', async () => {
+    format = AuctionFormat.SEALED;
+    const { auction, player } = await bidFor(0, 400);
+
+    expect(bids[0]).toMatchObject({ amount: 400, isSealed: true });
+    expect(getVisibleBid(auction, player)).toEqual({ amount: 100, team: null });
+  });
+});
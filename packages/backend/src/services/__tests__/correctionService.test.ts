@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Types } from 'mongoose';
+import { Auction, Bid, PlayerRegistration, SaleCorrection, Team } from '../../models';
+import {
+  AcquisitionSource,
+  AuctionFormat,
+  AuctionStatus,
+  BidStatus,
+  IAuction,
+  IPlayerRegistration,
+  ITeam,
+  PlayerAuctionStatus,
+} from '../../types';
+import { ValidationError } from '../../middleware/errorHandler';
+import { reassignSale, undoLastResult } from '../correctionService';
+
+jest.mock('../../models', () => ({
+  Auction: { findById: jest.fn() },
+  Bid: { create: jest.fn(), findOneAndUpdate: jest.fn(), updateMany: jest.fn() },
+  PlayerRegistration: { findOne: jest.fn() },
+  ProxyBid: {},
+  SaleCorrection: { create: jest.fn() },
+  Team: { findById: jest.fn(), findOne: jest.fn() },
+}));
+
+jest.mock('../squadService', () => ({
+  getSquadViolation: jest.fn(async () => null),
+}));
+
+// In-memory stand-ins for the documents a correction reads and saves. The
+// player was sold to the buyer for 300 and the rival has not bought anyone.
+
+const userId = new Types.ObjectId().toString();
+const auctionId = new Types.ObjectId().toString();
+
+let auction: Partial<IAuction>;
+let player: Partial<IPlayerRegistration>;
+let buyer: Partial<ITeam>;
+let rival: Partial<ITeam>;
+
+const saveMock = () => jest.fn(async () => undefined) as never;
+
+const team = (name: string, remainingBudget: number): Partial<ITeam> => ({
+  _id: new Types.ObjectId(),
+  name,
+  auction: new Types.ObjectId(auctionId),
+  remainingBudget,
+  acquiredPlayers: [],
+  isActive: true,
+  save: saveMock(),
+});
+
+const findTeam = (id: unknown): Partial<ITeam> | null =>
+  [buyer, rival].find((t) => t._id?.equals(String(id))) ?? null;
+
+beforeEach(() => {
+  auction = {
+    _id: new Types.ObjectId(auctionId),
+    createdBy: new Types.ObjectId(userId),
+    status: AuctionStatus.LIVE,
+    format: AuctionFormat.OPEN,
+    maxPlayersPerTeam: 0,
+  };
+
+  buyer = team('Buyer', 700);
+  rival = team('Rival', 500);
+
+  player = {
+    _id: new Types.ObjectId(),
+    auction: auction._id,
+    status: PlayerAuctionStatus.SOLD,
+    soldPrice: 300,
+    soldTo: buyer._id,
+    soldInRound: 1,
+    resultAt: new Date(),
+    save: saveMock(),
+  };
+  buyer.acquiredPlayers = [
+    {
+      player: player._id!,
+      soldPrice: 300,
+      acquiredAt: new Date(),
+      source: AcquisitionSource.AUCTION,
+    },
+  ];
+
+  jest.mocked(Auction.findById).mockImplementation((async () => auction) as never);
+
+  const query = { sort: () => query, populate: async () => player };
+  jest.mocked(PlayerRegistration.findOne).mockImplementation((() => query) as never);
+
+  jest.mocked(Team.findById).mockImplementation((async (id: unknown) => findTeam(id)) as never);
+  jest
+    .mocked(Team.findOne)
+    .mockImplementation((async (filter: { _id: unknown }) => findTeam(filter._id)) as never);
+
+  jest.mocked(Bid.updateMany).mockImplementation((async () => undefined) as never);
+  jest.mocked(Bid.findOneAndUpdate).mockImplementation((async () => null) as never);
+  jest.mocked(Bid.create).mockImplementation((async () => undefined) as never);
+  jest
+    .mocked(SaleCorrection.create)
+    .mockImplementation((async (doc: Record<string, unknown>) => doc) as never);
+});
+
+describe('undoLastResult', () => {
+  it('refunds the buyer and returns the player to the pool', async () => {
+    const { teams } = await undoLastResult(auctionId, userId, 'Wrong paddle');
+
+    expect(teams).toEqual([buyer]);
+    expect(buyer.remainingBudget).toBe(1000);
+    expect(buyer.acquiredPlayers).toHaveLength(0);
+    expect(buyer.save).toHaveBeenCalled();
+
+    expect(player).toMatchObject({
+      status: PlayerAuctionStatus.PENDING,
+      soldPrice: undefined,
+      soldTo: undefined,
+      resultAt: undefined,
+    });
+    expect(player.save).toHaveBeenCalled();
+    expect(Bid.updateMany).toHaveBeenCalledWith(
+      { player: player._id, status: BidStatus.WON },
+      { status: BidStatus.ACTIVE }
+    );
+  });
+
+  it('refuses while a lot is open', async () => {
+    auction.currentPlayerOnBlock = new Types.ObjectId();
+
+    await expect(undoLastResult(auctionId, userId, 'Wrong paddle')).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    expect(buyer.remainingBudget).toBe(700);
+  });
+});
+
+describe('reassignSale', () => {
+  const reassign = (price?: number) =>
+    reassignSale({
+      auctionId,
+      playerId: player._id!.toString(),
+      teamId: rival._id!.toString(),
+      reason: 'Awarded to the wrong team',
+      price,
+      userId,
+    });
+
+  it('charges the new team and refunds the original buyer', async () => {
+    const { teams } = await reassign();
+
+    expect(teams).toEqual([buyer, rival]);
+    expect(buyer.remainingBudget).toBe(1000);
+    expect(buyer.acquiredPlayers).toHaveLength(0);
+    expect(rival.remainingBudget).toBe(200);
+    expect(rival.acquiredPlayers).toEqual([
+      expect.objectContaining({ player: player._id, soldPrice: 300 }),
+    ]);
+    expect(player.soldTo).toEqual(rival._id);
+  });
+
+  it('rejects a price over what the new team can spend', async () => {
+    await expect(reassign(600)).rejects.toBeInstanceOf(ValidationError);
+
+    expect(buyer.remainingBudget).toBe(700);
+    expect(rival.remainingBudget).toBe(500);
+    expect(rival.acquiredPlayers).toHaveLength(0);
+    expect(player.soldTo).toEqual(buyer._id);
+  });
+});
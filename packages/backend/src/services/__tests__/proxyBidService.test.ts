@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Types } from 'mongoose';
+import { Auction, PlayerRegistration, ProxyBid, Team } from '../../models';
+import {
+  AuctionFormat,
+  AuctionStatus,
+  IAuction,
+  IPlayerRegistration,
+  IProxyBid,
+  ITeam,
+  PlayerAuctionStatus,
+} from '../../types';
+import { getNextProxyBid } from '../proxyBidService';
+
+jest.mock('../../models', () => ({
+  Auction: { findById: jest.fn() },
+  Bid: {},
+  PlayerRegistration: { findById: jest.fn() },
+  ProxyBid: { find: jest.fn() },
+  Team: { findOne: jest.fn() },
+}));
+
+jest.mock('../squadService', () => ({
+  getSquadViolation: jest.fn(async () => null),
+}));
+
+// In-memory stand-ins for the lot, the teams and their proxy ceilings. Bids
+// open at 100 and rise by 10.
+
+const auctionId = new Types.ObjectId().toString();
+const playerId = new Types.ObjectId().toString();
+
+let auction: Partial<IAuction>;
+let player: Partial<IPlayerRegistration>;
+let teams: Partial<ITeam>[];
+let proxies: Partial<IProxyBid>[];
+
+const setProxy = (teamIndex: number, maxAmount: number): Partial<IProxyBid> => {
+  const proxy: Partial<IProxyBid> = {
+    _id: new Types.ObjectId(),
+    team: teams[teamIndex]._id,
+    maxAmount,
+    isActive: true,
+    save: jest.fn(async () => undefined) as never,
+  };
+  proxies.push(proxy);
+  return proxy;
+};
+
+const acceptBid = (teamId: Types.ObjectId, amount: number): void => {
+  player.currentBid = amount;
+  player.currentBidTeam = teamId;
+};
+
+beforeEach(() => {
+  auction = {
+    _id: new Types.ObjectId(auctionId),
+    status: AuctionStatus.LIVE,
+    format: AuctionFormat.OPEN,
+    bidIncrementAmount: 10,
+    bidIncrementTiers: [],
+    maxPlayersPerTeam: 0,
+  };
+  player = {
+    _id: new Types.ObjectId(playerId),
+    status: PlayerAuctionStatus.IN_AUCTION,
+    basePrice: 100,
+  };
+  teams = ['Team 1', 'Team 2'].map((name) => ({
+    _id: new Types.ObjectId(),
+    name,
+    remainingBudget: 1000,
+    acquiredPlayers: [],
+    isActive: true,
+  }));
+  proxies = [];
+
+  jest.mocked(Auction.findById).mockImplementation((async () => auction) as never);
+  jest.mocked(PlayerRegistration.findById).mockImplementation((async () => player) as never);
+  jest
+    .mocked(Team.findOne)
+    .mockImplementation((async (filter: { _id: Types.ObjectId }) =>
+      teams.find((team) => team._id?.equals(filter._id))) as never);
+
+  // Active ceilings of teams other than the current bidder, highest first
+  jest.mocked(ProxyBid.find).mockImplementation((() => ({
+    sort: async () =>
+      proxies
+        .filter((proxy) => proxy.isActive && !proxy.team?.equals(player.currentBidTeam ?? ''))
+        .sort((a, b) => (b.maxAmount ?? 0) - (a.maxAmount ?? 0)),
+  })) as never);
+});
+
+describe('getNextProxyBid', () => {
+  it('counter-bids one increment over a rival bid', async () => {
+    const proxy = setProxy(0, 500);
+    acceptBid(teams[1]._id!, 200);
+
+    await expect(getNextProxyBid(auctionId, playerId)).resolves.toEqual({ proxy, amount: 210 });
+  });
+
+  it('bids against a rival proxy until the lower ceiling is beaten', async () => {
+    const higher = setProxy(0, 200);
+    const lower = setProxy(1, 150);
+
+    for (let next = await getNextProxyBid(auctionId, playerId); next; ) {
+      acceptBid(next.proxy.team, next.amount);
+      next = await getNextProxyBid(auctionId, playerId);
+    }
+
+    expect(player.currentBidTeam).toEqual(higher.team);
+    expect(player.currentBid).toBe(160);
+    expect(lower.isActive).toBe(false);
+    expect(higher.isActive).toBe(true);
+  });
+
+  it('stops at the proxy ceiling', async () => {
+    const proxy = setProxy(0, 125);
+    acceptBid(teams[1]._id!, 120);
+
+    await expect(getNextProxyBid(auctionId, playerId)).resolves.toBeNull();
+    expect(proxy.isActive).toBe(false);
+    expect(proxy.save).toHaveBeenCalled();
+  });
+
+  it('keeps to what the team can spend with squad slots still to fill', async () => {
+    // Two more slots to fill at 100 leave 100 of the 300 budget for this player
+    auction.maxPlayersPerTeam = 3;
+    auction.sportConfig = { basePriceTiers: [{ amount: 100 }] } as IAuction['sportConfig'];
+    teams[0].remainingBudget = 300;
+    const proxy = setProxy(0, 500);
+    acceptBid(teams[1]._id!, 100);
+
+    await expect(getNextProxyBid(auctionId, playerId)).resolves.toBeNull();
+    expect(proxy.isActive).toBe(false);
+  });
+});
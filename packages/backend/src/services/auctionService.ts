@@ -0,0 +1,339 @@
+import { Auction, Bid, Team, PlayerRegistration } from '../models';
+import {
+  AuctionFormat,
+  AuctionStatus,
+  BidStatus,
+  IAuction,
+  IPlayerRegistration,
+  PlayerAuctionStatus,
+} from '../types';
+import { NotFoundError, ForbiddenError, ValidationError } from '../middleware/errorHandler';
+
+export interface IOpenRoundInput {
+  auctionId: string;
+  userId: string;
+  playerIds?: string[]; // Defaults to every unsold player
+  basePrice?: number; // Reduced base price tier for the round
+  bidTimerSeconds?: number; // Shorter bid timer for the round
+}
+
+export interface IOpenRoundResult {
+  auction: IAuction;
+  playerIds: string[];
+}
+
+export interface IWithdrawPlayerResult {
+  auction: IAuction;
+  player: IPlayerRegistration;
+}
+
+/**
+ * Seconds each lot runs for, taking an accelerated round's timer into account
+ */
+export const getBidTimerSeconds = (auction: IAuction): number =>
+  auction.roundBidTimerSeconds ?? auction.bidTimerSeconds;
+
+/**
+ * Seconds a bid placed with `timeRemaining` left adds to the lot under the
+ * auction's soft-close rules, limited by the extension the lot has left
+ */
+export const getSoftCloseExtension = (auction: IAuction, timeRemaining: number): number => {
+  const { softClose } = auction;
+  if (!softClose || timeRemaining > softClose.windowSeconds) return 0;
+
+  return Math.max(
+    0,
+    Math.min(softClose.extensionSeconds, softClose.maxExtensionSeconds - auction.lotExtensionSeconds)
+  );
+};
+
+/**
+ * "Going twice" has to be called after "going once"
+ */
+export const validateCallPhases = (goingOnceSeconds: number, goingTwiceSeconds: number): void => {
+  if (goingTwiceSeconds >= goingOnceSeconds) {
+    throw new ValidationError('Going twice must be called later than going once');
+  }
+};
+
+/**
+ * Start an upcoming auction or resume a paused one
+ */
+export const startAuction = async (auctionId: string, userId: string): Promise<IAuction> => {
+  const auction = await Auction.findById(auctionId);
+
+  if (!auction) {
+    throw new NotFoundError('Auction not found');
+  }
+
+  // Check ownership
+  if (auction.createdBy.toString() !== userId) {
+    throw new ForbiddenError('Only the auction creator can start the auction');
+  }
+
+  if (auction.status !== AuctionStatus.UPCOMING && auction.status !== AuctionStatus.PAUSED) {
+    throw new ValidationError('Auction cannot be started from current state');
+  }
+
+  // Check if there are enough teams and players (only when going live for the first time)
+  if (auction.status === AuctionStatus.UPCOMING) {
+    const [teamCount, playerCount] = await Promise.all([
+      Team.countDocuments({ auction: auctionId, isActive: true }),
+      PlayerRegistration.countDocuments({
+        auction: auctionId,
+        status: PlayerAuctionStatus.PENDING,
+      }),
+    ]);
+
+    if (teamCount < 2) {
+      throw new ValidationError('At least 2 teams are required to start the auction');
+    }
+
+    if (playerCount < 1) {
+      throw new ValidationError('At least 1 player is required to start the auction');
+    }
+  }
+
+  auction.status = AuctionStatus.LIVE;
+  if (!auction.actualStartTime) {
+    auction.actualStartTime = new Date();
+  }
+  await auction.save();
+
+  return auction;
+};
+
+/**
+ * Pause a live auction, freezing the remaining time of the lot on the block
+ */
+export const pauseAuction = async (auctionId: string, userId: string): Promise<IAuction> => {
+  const auction = await Auction.findById(auctionId);
+
+  if (!auction) {
+    throw new NotFoundError('Auction not found');
+  }
+
+  // Check ownership
+  if (auction.createdBy.toString() !== userId) {
+    throw new ForbiddenError('Only the auction creator can pause the auction');
+  }
+
+  if (auction.status !== AuctionStatus.LIVE) {
+    throw new ValidationError('Only live auctions can be paused');
+  }
+
+  auction.status = AuctionStatus.PAUSED;
+  // A draft's pick clock runs without a player on the block
+  const clockRunning = auction.currentPlayerOnBlock || auction.format === AuctionFormat.DRAFT;
+  if (clockRunning && auction.biddingEndsAt) {
+    auction.pausedTimeRemaining = Math.max(
+      0,
+      Math.ceil((auction.biddingEndsAt.getTime() - Date.now()) / 1000)
+    );
+  }
+  auction.biddingEndsAt = undefined;
+  await auction.save();
+
+  return auction;
+};
+
+/**
+ * Take the player on the block back to the pool without a result. Bids on
+ * the lot are expired and the player is nominated again later.
+ */
+export const withdrawPlayer = async (
+  auctionId: string,
+  userId: string
+): Promise<IWithdrawPlayerResult> => {
+  const auction = await Auction.findById(auctionId);
+
+  if (!auction) {
+    throw new NotFoundError('Auction not found');
+  }
+
+  // Check ownership
+  if (auction.createdBy.toString() !== userId) {
+    throw new ForbiddenError('Only the auction creator can withdraw a player');
+  }
+
+  if (auction.status !== AuctionStatus.LIVE && auction.status !== AuctionStatus.PAUSED) {
+    throw new ValidationError('Auction is not running');
+  }
+
+  if (!auction.currentPlayerOnBlock) {
+    throw new ValidationError('No player is on the block');
+  }
+
+  if (auction.pendingRightToMatch) {
+    throw new ValidationError('Wait for the Right-to-Match offer to close');
+  }
+
+  // Claim the lot, so a withdrawal cannot undo a sale the timer just completed
+  const player = await PlayerRegistration.findOneAndUpdate(
+    { _id: auction.currentPlayerOnBlock, status: PlayerAuctionStatus.IN_AUCTION },
+    {
+      $set: { status: PlayerAuctionStatus.PENDING },
+      $unset: { currentBid: 1, currentBidTeam: 1 },
+    },
+    { new: true }
+  ).populate('user', 'name');
+  if (!player) {
+    throw new ValidationError('No player is on the block');
+  }
+
+  await Bid.updateMany(
+    { player: player._id, status: BidStatus.ACTIVE },
+    { status: BidStatus.EXPIRED }
+  );
+
+  auction.currentPlayerOnBlock = undefined;
+  auction.biddingEndsAt = undefined;
+  auction.pausedTimeRemaining = undefined;
+  await auction.save();
+
+  return { auction, player };
+};
+
+/**
+ * End an auction that has not ended yet
+ */
+export const endAuction = async (auctionId: string, userId: string): Promise<IAuction> => {
+  const auction = await Auction.findById(auctionId);
+
+  if (!auction) {
+    throw new NotFoundError('Auction not found');
+  }
+
+  // Check ownership
+  if (auction.createdBy.toString() !== userId) {
+    throw new ForbiddenError('Only the auction creator can end the auction');
+  }
+
+  if (auction.status === AuctionStatus.ENDED) {
+    throw new ValidationError('Auction has already ended');
+  }
+
+  auction.status = AuctionStatus.ENDED;
+  auction.endTime = new Date();
+  auction.currentPlayerOnBlock = undefined;
+  auction.biddingEndsAt = undefined;
+  auction.autoRun = false;
+  await auction.save();
+
+  return auction;
+};
+
+/**
+ * Turn auto-run mode on or off, optionally changing the gap between lots
+ */
+export const setAutoRun = async (
+  auctionId: string,
+  userId: string,
+  enabled: boolean,
+  gapSeconds?: number
+): Promise<IAuction> => {
+  const auction = await Auction.findById(auctionId);
+
+  if (!auction) {
+    throw new NotFoundError('Auction not found');
+  }
+
+  // Check ownership
+  if (auction.createdBy.toString() !== userId) {
+    throw new ForbiddenError('Only the auction creator can change auto-run mode');
+  }
+
+  if (auction.status === AuctionStatus.ENDED) {
+    throw new ValidationError('Auction has already ended');
+  }
+
+  if (gapSeconds !== undefined && (!Number.isInteger(gapSeconds) || gapSeconds < 0 || gapSeconds > 60)) {
+    throw new ValidationError('Auto-run gap must be between 0 and 60 seconds');
+  }
+
+  auction.autoRun = enabled;
+  if (gapSeconds !== undefined) {
+    auction.autoRunGapSeconds = gapSeconds;
+  }
+  await auction.save();
+
+  return auction;
+};
+
+/**
+ * Open an accelerated round that puts unsold players back in the queue,
+ * optionally at a lower base price tier and with a shorter bid timer
+ */
+export const openAcceleratedRound = async (input: IOpenRoundInput): Promise<IOpenRoundResult> => {
+  const { auctionId, userId, playerIds, basePrice, bidTimerSeconds } = input;
+
+  const auction = await Auction.findById(auctionId);
+
+  if (!auction) {
+    throw new NotFoundError('Auction not found');
+  }
+
+  // Check ownership
+  if (auction.createdBy.toString() !== userId) {
+    throw new ForbiddenError('Only the auction creator can open a new round');
+  }
+
+  if (auction.status !== AuctionStatus.LIVE && auction.status !== AuctionStatus.PAUSED) {
+    throw new ValidationError('A new round can only be opened while the auction is running');
+  }
+
+  if (auction.currentPlayerOnBlock) {
+    throw new ValidationError('Finish the current lot before opening a new round');
+  }
+
+  if (
+    basePrice !== undefined &&
+    !auction.sportConfig.basePriceTiers.some((tier) => tier.amount === basePrice)
+  ) {
+    throw new ValidationError('Base price must be one of the auction base price tiers');
+  }
+
+  const filter: Record<string, unknown> = {
+    auction: auctionId,
+    status: PlayerAuctionStatus.UNSOLD,
+  };
+  if (playerIds && playerIds.length > 0) {
+    filter._id = { $in: playerIds };
+  }
+
+  const players = await PlayerRegistration.find(filter);
+  if (players.length === 0) {
+    throw new ValidationError('There are no unsold players to re-auction');
+  }
+
+  await Promise.all(
+    players.map((player) => {
+      player.status = PlayerAuctionStatus.PENDING;
+      player.currentBid = undefined;
+      player.currentBidTeam = undefined;
+      // Only ever lower a player's price in an accelerated round
+      if (basePrice !== undefined && basePrice < player.basePrice) {
+        player.basePrice = basePrice;
+      }
+      return player.save();
+    })
+  );
+
+  auction.currentRound = (auction.currentRound || 1) + 1;
+  auction.roundBidTimerSeconds = bidTimerSeconds;
+  await auction.save();
+
+  return { auction, playerIds: players.map((p) => p._id.toString()) };
+};
+
+export default {
+  getBidTimerSeconds,
+  getSoftCloseExtension,
+  validateCallPhases,
+  startAuction,
+  pauseAuction,
+  withdrawPlayer,
+  endAuction,
+  setAutoRun,
+  openAcceleratedRound,
+};
@@ -0,0 +1,443 @@
+import { Types } from 'mongoose';
+import { Auction, Bid, PlayerRegistration, ProxyBid, Team } from '../models';
+import {
+  AuctionFormat,
+  AuctionStatus,
+  BidStatus,
+  ErrorCode,
+  getBidIncrement as getTierIncrement,
+  IAuction,
+  IBid,
+  IBidIncrementTier,
+  IPlayerRegistration,
+  ITeam,
+  PlayerAuctionStatus,
+} from '../types';
+import { BidRejectedError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { getSquadViolation } from './squadService';
+
+// How long a retry waits for the original bid to claim the lot or be removed
+const BID_SETTLE_ATTEMPTS = 10;
+const BID_SETTLE_INTERVAL_MS = 50;
+
+export interface IPlaceBidInput {
+  auctionId: string;
+  playerId: string;
+  teamId: string;
+  bidderId: string;
+  amount: number;
+  isProxy?: boolean;
+  idempotencyKey?: string;
+}
+
+export interface IPlaceBidResult {
+  bid: IBid;
+  auction: IAuction;
+  player: IPlayerRegistration;
+  team: ITeam;
+}
+
+export interface IPassLotInput {
+  auctionId: string;
+  playerId: string;
+  teamId: string;
+}
+
+export interface IPassLotResult {
+  auction: IAuction;
+  player: IPlayerRegistration;
+  team: ITeam;
+  teamsStillIn: number; // Teams other than the highest bidder yet to pass
+}
+
+/**
+ * Check an increment ladder for configuration errors
+ */
+export const validateBidIncrementTiers = (tiers: IBidIncrementTier[]): void => {
+  tiers.forEach((tier, index) => {
+    if (tier.increment <= 0) {
+      throw new ValidationError('Bid increments must be positive');
+    }
+
+    if (index > 0 && tier.from <= tiers[index - 1].from) {
+      throw new ValidationError('Bid increment tiers must be in ascending order of amount');
+    }
+  });
+};
+
+/**
+ * Step to raise the current bid by on the auction's increment ladder
+ */
+export const getBidIncrement = (auction: IAuction, currentBid: number): number => {
+  return getTierIncrement(currentBid, auction.bidIncrementAmount, auction.bidIncrementTiers);
+};
+
+/**
+ * Minimum acceptable bid for the player currently on the block
+ */
+export const getMinimumBid = (auction: IAuction, player: IPlayerRegistration): number => {
+  return player.currentBid !== undefined && player.currentBid !== null
+    ? player.currentBid + getBidIncrement(auction, player.currentBid)
+    : player.basePrice;
+};
+
+/**
+ * Highest amount a team may bid while keeping enough budget to fill the rest
+ * of its squad (up to `maxPlayersPerTeam`) at the lowest base price
+ */
+export const getMaxBid = (auction: IAuction, team: ITeam): number => {
+  if (!auction.maxPlayersPerTeam) {
+    return team.remainingBudget;
+  }
+
+  const basePrices = auction.sportConfig.basePriceTiers.map((t) => t.amount);
+  const minimumBasePrice = basePrices.length > 0 ? Math.min(...basePrices) : 0;
+
+  // Slots still to fill after the player currently being bid on
+  const emptySlots = Math.max(0, auction.maxPlayersPerTeam - team.acquiredPlayers.length - 1);
+
+  return Math.max(0, team.remainingBudget - minimumBasePrice * emptySlots);
+};
+
+/**
+ * Whether a write failed on the unique index that covers `field`
+ */
+const isDuplicateKey = (error: unknown, field: string): boolean => {
+  const { code, keyPattern } = error as { code?: number; keyPattern?: Record<string, unknown> };
+  return code === 11000 && !!keyPattern && field in keyPattern;
+};
+
+/**
+ * A retry whose idempotency key is already taken. The bid placed under the key
+ * is what the caller should report; see `findBidByIdempotencyKey`.
+ */
+const duplicateBidError = (): BidRejectedError =>
+  new BidRejectedError('This bid has already been submitted', ErrorCode.DUPLICATE_ERROR, 409);
+
+/**
+ * Record a team's one hidden bid on a sealed lot. The current bid is left
+ * untouched so nothing leaks before the reveal; `bidVersion` only numbers the
+ * bid. A unique index on open sealed bids keeps it to one bid per team, however
+ * many arrive at once.
+ */
+const submitSealedBid = async (
+  input: IPlaceBidInput,
+  auction: IAuction,
+  player: IPlayerRegistration,
+  team: ITeam
+): Promise<IPlaceBidResult> => {
+  const { auctionId, playerId, bidderId, amount } = input;
+
+  const counted = await PlayerRegistration.findOneAndUpdate(
+    { _id: player._id, status: PlayerAuctionStatus.IN_AUCTION },
+    { $inc: { bidVersion: 1 } },
+    { new: true }
+  ).populate('user', 'name');
+
+  if (!counted) {
+    throw new BidRejectedError(
+      'Player is not currently on the block',
+      ErrorCode.PLAYER_NOT_ON_BLOCK
+    );
+  }
+
+  try {
+    const bid = await Bid.create({
+      auction: auctionId,
+      player: playerId,
+      team: team._id,
+      bidder: bidderId,
+      amount,
+      status: BidStatus.ACTIVE,
+      bidNumber: counted.bidVersion,
+      isSealed: true,
+      idempotencyKey: input.idempotencyKey,
+      timestamp: new Date(),
+    });
+
+    return { bid, auction, player: counted, team };
+  } catch (error) {
+    if (isDuplicateKey(error, 'idempotencyKey')) {
+      throw duplicateBidError();
+    }
+    if (isDuplicateKey(error, 'player')) {
+      throw new BidRejectedError(
+        'You have already submitted a sealed bid for this player',
+        ErrorCode.ALREADY_BID
+      );
+    }
+    throw error;
+  }
+};
+
+/**
+ * Validate and accept a bid.
+ *
+ * Bids on a player are serialised through `PlayerRegistration.bidVersion`: the
+ * current bid is only replaced if the version is unchanged since it was read,
+ * so of two concurrent bids at the same amount exactly one is accepted and the
+ * other is rejected with STALE_BID.
+ *
+ * In sealed-bid auctions the bid is stored hidden instead; see `submitSealedBid`.
+ */
+export const placeBid = async (input: IPlaceBidInput): Promise<IPlaceBidResult> => {
+  const { auctionId, playerId, teamId, bidderId, amount, isProxy = false } = input;
+
+  const auction = await Auction.findById(auctionId);
+  if (!auction) {
+    throw new NotFoundError('Auction not found');
+  }
+
+  if (auction.status !== AuctionStatus.LIVE) {
+    throw new BidRejectedError('Auction is not live', ErrorCode.AUCTION_NOT_LIVE);
+  }
+
+  if (auction.format === AuctionFormat.DRAFT) {
+    throw new BidRejectedError('Players are drafted, not bid on', ErrorCode.LOT_CLOSED);
+  }
+
+  const player = await PlayerRegistration.findById(playerId).populate('user', 'name');
+  if (
+    !player ||
+    player.auction.toString() !== auctionId ||
+    player.status !== PlayerAuctionStatus.IN_AUCTION
+  ) {
+    throw new BidRejectedError(
+      'Player is not currently on the block',
+      ErrorCode.PLAYER_NOT_ON_BLOCK
+    );
+  }
+
+  if (auction.pendingRightToMatch) {
+    throw new BidRejectedError(
+      'Bidding is closed while a Right-to-Match offer is open',
+      ErrorCode.LOT_CLOSED
+    );
+  }
+
+  const team = await Team.findOne({ _id: teamId, auction: auctionId, isActive: true });
+  if (!team) {
+    throw new NotFoundError('Team not found');
+  }
+
+  if (auction.lotPasses.some((id) => id.equals(team._id))) {
+    throw new BidRejectedError('You have passed on this player', ErrorCode.PASSED);
+  }
+
+  const minimumBid = getMinimumBid(auction, player);
+  if (amount < minimumBid) {
+    throw new BidRejectedError(`Minimum bid is ${minimumBid}`, ErrorCode.BID_TOO_LOW, 400, {
+      minimumBid,
+    });
+  }
+
+  if (team.remainingBudget < amount) {
+    throw new BidRejectedError('Insufficient budget', ErrorCode.BUDGET_EXCEEDED, 400, {
+      remainingBudget: team.remainingBudget,
+    });
+  }
+
+  const maxBid = getMaxBid(auction, team);
+  if (amount > maxBid) {
+    throw new BidRejectedError(
+      `Maximum bid is ${maxBid} (budget is reserved for remaining squad slots)`,
+      ErrorCode.MAX_BID_EXCEEDED,
+      400,
+      { maxBid }
+    );
+  }
+
+  const squadViolation = await getSquadViolation(auction, team, player);
+  if (squadViolation) {
+    throw new BidRejectedError(squadViolation, ErrorCode.SQUAD_RULE_VIOLATION);
+  }
+
+  if (auction.format === AuctionFormat.SEALED) {
+    return submitSealedBid(input, auction, player, team);
+  }
+
+  // The bid is written before the current bid is claimed and removed again if
+  // the claim fails, so an accepted bid always has its Bid document. Writing it
+  // also claims the idempotency key, so a retry can never be placed alongside.
+  const bid = await Bid.create({
+    auction: auctionId,
+    player: playerId,
+    team: team._id,
+    bidder: bidderId,
+    amount,
+    status: BidStatus.ACTIVE,
+    bidNumber: (player.bidVersion || 0) + 1,
+    isProxy,
+    idempotencyKey: input.idempotencyKey,
+    timestamp: new Date(),
+  }).catch((error) => {
+    throw isDuplicateKey(error, 'idempotencyKey') ? duplicateBidError() : error;
+  });
+
+  // Claim the current bid; fails if another bid was accepted since we read the player.
+  // Registrations created before versioning have no bidVersion field yet.
+  const accepted = await PlayerRegistration.findOneAndUpdate(
+    {
+      _id: player._id,
+      status: PlayerAuctionStatus.IN_AUCTION,
+      bidVersion: player.bidVersion ? player.bidVersion : { $in: [0, null] },
+    },
+    {
+      $set: { currentBid: amount, currentBidTeam: team._id },
+      $inc: { bidVersion: 1 },
+      $push: { acceptedBids: bid._id },
+    },
+    { new: true }
+  ).populate('user', 'name');
+
+  if (!accepted) {
+    await Bid.deleteOne({ _id: bid._id });
+    throw new BidRejectedError(
+      'Another bid was accepted first, please bid again',
+      ErrorCode.STALE_BID,
+      409
+    );
+  }
+
+  // Mark lower bids as outbid (a later, higher bid may already be saved)
+  await Bid.updateMany(
+    {
+      player: playerId,
+      _id: { $ne: bid._id },
+      status: BidStatus.ACTIVE,
+      amount: { $lt: amount },
+    },
+    { status: BidStatus.OUTBID }
+  );
+
+  return { bid, auction, player: accepted, team };
+};
+
+/**
+ * Current bid on a lot as shown to the room. Sealed bids stay hidden until the
+ * reveal, so a sealed lot shows its base price and no bidder.
+ */
+export const getVisibleBid = (
+  auction: IAuction,
+  player: IPlayerRegistration
+): { amount: number; team: Types.ObjectId | null } => {
+  if (auction.format === AuctionFormat.SEALED || !player.currentBidTeam) {
+    return { amount: player.basePrice, team: null };
+  }
+  return { amount: player.currentBid ?? player.basePrice, team: player.currentBidTeam };
+};
+
+/**
+ * Bid that takes an open lot when it closes: the one holding the player's
+ * current bid. A bid that lost the claim may still be on record until it is
+ * rolled back, so the highest bid is not necessarily the winner.
+ */
+export const getWinningBid = async (player: IPlayerRegistration): Promise<IBid | null> => {
+  if (!player.currentBidTeam) return null;
+
+  return Bid.findOne({
+    player: player._id,
+    team: player.currentBidTeam,
+    amount: player.currentBid,
+    status: BidStatus.ACTIVE,
+  }).sort({ timestamp: 1 });
+};
+
+/**
+ * Record that a team is out of the current lot and stop its proxy bidding.
+ * The lot can close early once every team but the highest bidder has passed.
+ */
+export const passLot = async (input: IPassLotInput): Promise<IPassLotResult> => {
+  const { auctionId, playerId, teamId } = input;
+
+  const auction = await Auction.findById(auctionId);
+  if (!auction) {
+    throw new NotFoundError('Auction not found');
+  }
+
+  if (auction.status !== AuctionStatus.LIVE) {
+    throw new ValidationError('Auction is not live');
+  }
+
+  if (auction.format !== AuctionFormat.OPEN) {
+    throw new ValidationError('Passing is only available in open bidding');
+  }
+
+  const player = await PlayerRegistration.findOne({ _id: playerId, auction: auctionId }).populate(
+    'user',
+    'name'
+  );
+  if (
+    !player ||
+    player.status !== PlayerAuctionStatus.IN_AUCTION ||
+    auction.currentPlayerOnBlock?.toString() !== playerId
+  ) {
+    throw new ValidationError('Player is not currently on the block');
+  }
+
+  if (auction.pendingRightToMatch) {
+    throw new ValidationError('Bidding is closed while a Right-to-Match offer is open');
+  }
+
+  const team = await Team.findOne({ _id: teamId, auction: auctionId, isActive: true });
+  if (!team) {
+    throw new NotFoundError('Team not found');
+  }
+
+  if (player.currentBidTeam?.equals(team._id)) {
+    throw new ValidationError('You hold the highest bid');
+  }
+
+  const updated = await Auction.findOneAndUpdate(
+    { _id: auctionId, currentPlayerOnBlock: playerId },
+    { $addToSet: { lotPasses: team._id } },
+    { new: true }
+  );
+  if (!updated) {
+    throw new ValidationError('Player is not currently on the block');
+  }
+
+  await ProxyBid.updateMany({ player: playerId, team: team._id }, { isActive: false });
+
+  const passed = new Set(updated.lotPasses.map((id) => id.toString()));
+  const teams = await Team.find({ auction: auctionId, isActive: true }).select('_id');
+  const teamsStillIn = teams.filter(
+    (t) => !passed.has(t._id.toString()) && !player.currentBidTeam?.equals(t._id)
+  ).length;
+
+  return { auction: updated, player, team, teamsStillIn };
+};
+
+/**
+ * An accepted bid the team placed with this idempotency key, if any. An open
+ * bid is written before it claims the lot, so one still being placed is
+ * waited for rather than reported missing; one that lost the claim is removed.
+ */
+export const findBidByIdempotencyKey = async (
+  teamId: string,
+  idempotencyKey: string
+): Promise<IBid | null> => {
+  for (let attempt = 0; attempt < BID_SETTLE_ATTEMPTS; attempt++) {
+    const bid = await Bid.findOne({ team: teamId, idempotencyKey });
+    if (!bid) return null;
+    if (bid.isSealed) return bid;
+
+    const accepted = await PlayerRegistration.exists({ _id: bid.player, acceptedBids: bid._id });
+    if (accepted) return bid;
+
+    await new Promise((resolve) => setTimeout(resolve, BID_SETTLE_INTERVAL_MS));
+  }
+  return null;
+};
+
+export default {
+  validateBidIncrementTiers,
+  getBidIncrement,
+  getMinimumBid,
+  getMaxBid,
+  placeBid,
+  getVisibleBid,
+  getWinningBid,
+  passLot,
+  findBidByIdempotencyKey,
+};
@@ -0,0 +1,253 @@
+import { Auction, Bid, PlayerRegistration, SaleCorrection, Team } from '../models';
+import {
+  AcquisitionSource,
+  AuctionFormat,
+  AuctionStatus,
+  BidStatus,
+  CorrectionAction,
+  IAuction,
+  IPlayerRegistration,
+  ISaleCorrection,
+  ITeam,
+  PlayerAuctionStatus,
+} from '../types';
+import { NotFoundError, ForbiddenError, ValidationError } from '../middleware/errorHandler';
+import { getMaxBid } from './bidService';
+import { getSquadViolation } from './squadService';
+
+export interface IReassignSaleInput {
+  auctionId: string;
+  playerId: string;
+  teamId: string;
+  reason: string;
+  price?: number;
+  userId: string;
+}
+
+export interface ICorrectionResult {
+  correction: ISaleCorrection;
+  auction: IAuction;
+  player: IPlayerRegistration;
+  teams: ITeam[]; // Teams whose budget changed
+}
+
+/**
+ * Load an auction the user may correct results in
+ */
+const getCorrectableAuction = async (auctionId: string, userId: string): Promise<IAuction> => {
+  const auction = await Auction.findById(auctionId);
+
+  if (!auction) {
+    throw new NotFoundError('Auction not found');
+  }
+
+  // Check ownership
+  if (auction.createdBy.toString() !== userId) {
+    throw new ForbiddenError('Only the auction creator can correct results');
+  }
+
+  if (auction.status === AuctionStatus.UPCOMING) {
+    throw new ValidationError('The auction has no results yet');
+  }
+
+  // Budgets and squads are in play while a lot is open
+  if (auction.currentPlayerOnBlock) {
+    throw new ValidationError('Results can only be corrected between lots');
+  }
+
+  return auction;
+};
+
+/**
+ * Take a player out of a team's squad and refund what the team paid
+ */
+const refundPlayer = (team: ITeam, playerId: string): void => {
+  const entry = team.acquiredPlayers.find((p) => p.player.toString() === playerId);
+  if (!entry) return;
+
+  team.remainingBudget += entry.soldPrice;
+  team.acquiredPlayers = team.acquiredPlayers.filter((p) => p !== entry);
+};
+
+/**
+ * Revert the most recent sold or unsold outcome, returning the player to the
+ * pool and refunding the buying team
+ */
+export const undoLastResult = async (
+  auctionId: string,
+  userId: string,
+  reason: string
+): Promise<ICorrectionResult> => {
+  const auction = await getCorrectableAuction(auctionId, userId);
+
+  if (auction.status === AuctionStatus.ENDED) {
+    throw new ValidationError('Results of an ended auction can only be reassigned');
+  }
+
+  if (auction.format === AuctionFormat.DRAFT) {
+    throw new ValidationError('Draft picks can only be reassigned');
+  }
+
+  const player = await PlayerRegistration.findOne({
+    auction: auctionId,
+    status: { $in: [PlayerAuctionStatus.SOLD, PlayerAuctionStatus.UNSOLD] },
+    resultAt: { $ne: null },
+  })
+    .sort({ resultAt: -1 })
+    .populate('user', 'name');
+
+  if (!player) {
+    throw new ValidationError('There is no result to undo');
+  }
+
+  const previousStatus = player.status;
+  const previousPrice = player.soldPrice;
+  const fromTeam = player.soldTo ? await Team.findById(player.soldTo) : null;
+  const teams: ITeam[] = [];
+
+  if (previousStatus === PlayerAuctionStatus.SOLD) {
+    if (fromTeam) {
+      refundPlayer(fromTeam, player._id.toString());
+      await fromTeam.save();
+      teams.push(fromTeam);
+    }
+
+    // The winning bid goes back to how it stood before the hammer
+    await Bid.updateMany(
+      { player: player._id, status: BidStatus.WON },
+      { status: BidStatus.ACTIVE }
+    );
+  }
+
+  player.status = PlayerAuctionStatus.PENDING;
+  player.soldPrice = undefined;
+  player.soldTo = undefined;
+  player.soldInRound = undefined;
+  player.resultAt = undefined;
+  player.currentBid = undefined;
+  player.currentBidTeam = undefined;
+  await player.save();
+
+  const correction = await SaleCorrection.create({
+    auction: auctionId,
+    player: player._id,
+    action: CorrectionAction.UNDO,
+    previousStatus,
+    fromTeam: fromTeam?._id,
+    previousPrice,
+    reason,
+    correctedBy: userId,
+  });
+
+  return { correction, auction, player, teams };
+};
+
+/**
+ * Move a sold player to another team, refunding the original buyer and
+ * charging the new one
+ */
+export const reassignSale = async (input: IReassignSaleInput): Promise<ICorrectionResult> => {
+  const { auctionId, playerId, teamId, reason, userId } = input;
+
+  const auction = await getCorrectableAuction(auctionId, userId);
+
+  const player = await PlayerRegistration.findOne({ _id: playerId, auction: auctionId }).populate(
+    'user',
+    'name'
+  );
+  if (!player || player.status !== PlayerAuctionStatus.SOLD) {
+    throw new ValidationError('Only sold players can be reassigned');
+  }
+
+  if (player.soldTo?.toString() === teamId) {
+    throw new ValidationError('Player already belongs to this team');
+  }
+
+  const fromTeam = await Team.findById(player.soldTo);
+  const toTeam = await Team.findOne({ _id: teamId, auction: auctionId, isActive: true });
+  if (!fromTeam || !toTeam) {
+    throw new NotFoundError('Team not found in this auction');
+  }
+
+  const previousPrice = player.soldPrice || 0;
+  const price = input.price ?? previousPrice;
+
+  const maxBid = getMaxBid(auction, toTeam);
+  if (price > maxBid) {
+    throw new ValidationError(`${toTeam.name} can spend at most ${maxBid} on this player`);
+  }
+
+  const squadViolation = await getSquadViolation(auction, toTeam, player);
+  if (squadViolation) {
+    throw new ValidationError(squadViolation);
+  }
+
+  refundPlayer(fromTeam, playerId);
+  await fromTeam.save();
+
+  toTeam.remainingBudget -= price;
+  toTeam.acquiredPlayers.push({
+    player: player._id,
+    soldPrice: price,
+    acquiredAt: new Date(),
+    source: AcquisitionSource.AUCTION,
+  });
+  await toTeam.save();
+
+  // The wrongly awarded bid is treated as beaten; the new team's own bid at
+  // this price wins if it made one, otherwise the correction is recorded as a bid
+  await Bid.updateMany({ player: player._id, status: BidStatus.WON }, { status: BidStatus.OUTBID });
+  const matchingBid = await Bid.findOneAndUpdate(
+    { player: player._id, team: toTeam._id, amount: price },
+    { status: BidStatus.WON },
+    { new: true }
+  );
+  if (!matchingBid) {
+    await Bid.create({
+      auction: auctionId,
+      player: player._id,
+      team: toTeam._id,
+      bidder: userId,
+      amount: price,
+      status: BidStatus.WON,
+      timestamp: new Date(),
+    });
+  }
+
+  player.soldTo = toTeam._id;
+  player.soldPrice = price;
+  await player.save();
+
+  const correction = await SaleCorrection.create({
+    auction: auctionId,
+    player: player._id,
+    action: CorrectionAction.REASSIGN,
+    previousStatus: PlayerAuctionStatus.SOLD,
+    fromTeam: fromTeam._id,
+    toTeam: toTeam._id,
+    previousPrice,
+    newPrice: price,
+    reason,
+    correctedBy: userId,
+  });
+
+  return { correction, auction, player, teams: [fromTeam, toTeam] };
+};
+
+/**
+ * Correction history of an auction, newest first
+ */
+export const getCorrections = async (auctionId: string): Promise<ISaleCorrection[]> => {
+  return SaleCorrection.find({ auction: auctionId })
+    .sort({ createdAt: -1 })
+    .populate({ path: 'player', select: 'user', populate: { path: 'user', select: 'name' } })
+    .populate('fromTeam', 'name shortName')
+    .populate('toTeam', 'name shortName')
+    .populate('correctedBy', 'name');
+};
+
+export default {
+  undoLastResult,
+  reassignSale,
+  getCorrections,
+};
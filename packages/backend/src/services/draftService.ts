@@ -0,0 +1,294 @@
+import { Types } from 'mongoose';
+import { Auction, PlayerRegistration, Team, WishlistEntry } from '../models';
+import {
+  AcquisitionSource,
+  AuctionFormat,
+  AuctionStatus,
+  DraftOrderType,
+  IAuction,
+  IDraftOrderRequest,
+  IPlayerRegistration,
+  ITeam,
+  PlayerAuctionStatus,
+} from '../types';
+import { NotFoundError, ForbiddenError, ValidationError } from '../middleware/errorHandler';
+import { getSquadViolation } from './squadService';
+import { sortByPriority } from './wishlistService';
+
+export interface IDraftSlot {
+  team: ITeam;
+  pick: number; // Zero-based overall pick
+  round: number; // 1-based
+}
+
+export interface IMakePickInput {
+  auctionId: string;
+  teamId: string;
+  playerId: string;
+}
+
+export interface IDraftPickResult {
+  auction: IAuction;
+  team: ITeam;
+  player: IPlayerRegistration;
+  pickNumber: number; // 1-based overall pick
+  round: number;
+}
+
+export interface IDraftBoard {
+  orderType: DraftOrderType;
+  order: Array<Pick<ITeam, '_id' | 'name' | 'shortName'>>; // First-round order
+  picks: IPlayerRegistration[]; // In pick order, with the player and team populated
+  onClock: { teamId: Types.ObjectId; pickNumber: number; round: number } | null;
+}
+
+/**
+ * Active teams in first-round pick order. Teams missing from the configured
+ * order (or every team, if none was set) follow in registration order.
+ */
+export const getDraftOrder = async (auction: IAuction): Promise<ITeam[]> => {
+  const teams = await Team.find({ auction: auction._id, isActive: true }).sort({ createdAt: 1 });
+  const position = new Map(auction.draftOrder.map((teamId, index) => [teamId.toString(), index]));
+  const indexOf = (team: ITeam): number => position.get(team._id.toString()) ?? position.size;
+
+  return teams.sort((a, b) => indexOf(a) - indexOf(b));
+};
+
+/**
+ * Team and round for an overall pick, reversing the order on even rounds of a
+ * snake draft
+ */
+const getSlot = (auction: IAuction, order: ITeam[], pick: number): IDraftSlot => {
+  const round = Math.floor(pick / order.length) + 1;
+  const index = pick % order.length;
+  const reversed = auction.draftOrderType === DraftOrderType.SNAKE && round % 2 === 0;
+
+  return { team: order[reversed ? order.length - 1 - index : index], pick, round };
+};
+
+/**
+ * The team on the clock, skipping teams whose squads are full, or null once
+ * the draft is over
+ */
+export const getTeamOnClock = async (auction: IAuction): Promise<IDraftSlot | null> => {
+  const order = await getDraftOrder(auction);
+  if (order.length === 0) return null;
+
+  const pending = await PlayerRegistration.countDocuments({
+    auction: auction._id,
+    status: PlayerAuctionStatus.PENDING,
+  });
+  if (pending === 0) return null;
+
+  for (let pick = auction.currentPick; pick < auction.currentPick + order.length; pick++) {
+    const slot = getSlot(auction, order, pick);
+    if (!auction.maxPlayersPerTeam || slot.team.acquiredPlayers.length < auction.maxPlayersPerTeam) {
+      return slot;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Set the first-round pick order of a draft before it starts
+ */
+export const setDraftOrder = async (
+  auctionId: string,
+  userId: string,
+  data: IDraftOrderRequest
+): Promise<IAuction> => {
+  const auction = await Auction.findById(auctionId);
+
+  if (!auction) {
+    throw new NotFoundError('Auction not found');
+  }
+
+  // Check ownership
+  if (auction.createdBy.toString() !== userId) {
+    throw new ForbiddenError('Only the auction creator can set the draft order');
+  }
+
+  if (auction.format !== AuctionFormat.DRAFT) {
+    throw new ValidationError('Auction is not a draft');
+  }
+
+  if (auction.status !== AuctionStatus.UPCOMING) {
+    throw new ValidationError('Draft order can only be changed before the draft starts');
+  }
+
+  const teams = await Team.find({ auction: auctionId, isActive: true }).select('_id');
+  const teamIds = new Set(teams.map((t) => t._id.toString()));
+  if (
+    new Set(data.teamIds).size !== data.teamIds.length ||
+    data.teamIds.length !== teamIds.size ||
+    data.teamIds.some((id) => !teamIds.has(id))
+  ) {
+    throw new ValidationError('Draft order must list every team in the auction exactly once');
+  }
+
+  auction.set('draftOrder', data.teamIds);
+  if (data.orderType) {
+    auction.draftOrderType = data.orderType;
+  }
+  await auction.save();
+
+  return auction;
+};
+
+/**
+ * Draft a player to the team on the clock. The pick is claimed on the auction
+ * first, so a manual pick racing an expiring timer is only counted once.
+ */
+export const makePick = async (input: IMakePickInput): Promise<IDraftPickResult> => {
+  const { auctionId, teamId, playerId } = input;
+
+  const auction = await Auction.findById(auctionId);
+  if (!auction) {
+    throw new NotFoundError('Auction not found');
+  }
+
+  if (auction.format !== AuctionFormat.DRAFT) {
+    throw new ValidationError('Auction is not a draft');
+  }
+
+  if (auction.status !== AuctionStatus.LIVE) {
+    throw new ValidationError('Draft is not live');
+  }
+
+  const slot = await getTeamOnClock(auction);
+  if (!slot) {
+    throw new ValidationError('The draft is complete');
+  }
+
+  if (slot.team._id.toString() !== teamId) {
+    throw new ValidationError(`It is ${slot.team.name}'s pick`);
+  }
+
+  const player = await PlayerRegistration.findOne({ _id: playerId, auction: auctionId }).populate(
+    'user',
+    'name'
+  );
+  if (!player || player.status !== PlayerAuctionStatus.PENDING) {
+    throw new ValidationError('Player is not available');
+  }
+
+  const squadViolation = await getSquadViolation(auction, slot.team, player);
+  if (squadViolation) {
+    throw new ValidationError(squadViolation);
+  }
+
+  const claimed = await Auction.findOneAndUpdate(
+    { _id: auctionId, currentPick: auction.currentPick },
+    { currentPick: slot.pick + 1, biddingEndsAt: null, pausedTimeRemaining: null },
+    { new: true }
+  );
+  if (!claimed) {
+    throw new ValidationError('This pick has already been made');
+  }
+
+  player.status = PlayerAuctionStatus.SOLD;
+  player.soldTo = slot.team._id;
+  player.soldPrice = 0;
+  player.soldInRound = auction.currentRound;
+  player.draftPick = slot.pick + 1;
+  player.resultAt = new Date();
+  await player.save();
+
+  slot.team.acquiredPlayers.push({
+    player: player._id,
+    soldPrice: 0,
+    acquiredAt: new Date(),
+    source: AcquisitionSource.DRAFT,
+  });
+  await slot.team.save();
+
+  return {
+    auction: claimed,
+    team: slot.team,
+    player,
+    pickNumber: slot.pick + 1,
+    round: slot.round,
+  };
+};
+
+/**
+ * Pass over a pick nobody can make (no eligible player left for the team)
+ */
+export const skipPick = async (auctionId: string, pick: number): Promise<void> => {
+  await Auction.findOneAndUpdate(
+    { _id: auctionId, currentPick: { $lte: pick } },
+    { currentPick: pick + 1, biddingEndsAt: null, pausedTimeRemaining: null }
+  );
+};
+
+/**
+ * Player to draft for a team that ran out of time: its highest-priority
+ * wishlist entry still available, otherwise the best available player by base
+ * price. Players the team may not take under squad rules are passed over.
+ */
+export const getAutoPick = async (
+  auction: IAuction,
+  team: ITeam
+): Promise<IPlayerRegistration | null> => {
+  const isEligible = async (player: IPlayerRegistration | null): Promise<boolean> =>
+    !!player &&
+    player.status === PlayerAuctionStatus.PENDING &&
+    !(await getSquadViolation(auction, team, player));
+
+  const wishlist = sortByPriority(
+    await WishlistEntry.find({ team: team._id }).populate('player')
+  );
+  for (const entry of wishlist) {
+    const player = entry.player as unknown as IPlayerRegistration | null;
+    if (await isEligible(player)) return player;
+  }
+
+  const available = await PlayerRegistration.find({
+    auction: auction._id,
+    status: PlayerAuctionStatus.PENDING,
+  }).sort({ basePrice: -1, registrationOrder: 1 });
+  for (const player of available) {
+    if (await isEligible(player)) return player;
+  }
+
+  return null;
+};
+
+/**
+ * Draft board: pick order and every pick made so far
+ */
+export const getDraftBoard = async (auctionId: string): Promise<IDraftBoard> => {
+  const auction = await Auction.findById(auctionId);
+  if (!auction) {
+    throw new NotFoundError('Auction not found');
+  }
+
+  const [order, picks, onClock] = await Promise.all([
+    getDraftOrder(auction),
+    PlayerRegistration.find({ auction: auctionId, draftPick: { $ne: null } })
+      .sort({ draftPick: 1 })
+      .populate('user', 'name avatar')
+      .populate('soldTo', 'name shortName'),
+    getTeamOnClock(auction),
+  ]);
+
+  return {
+    orderType: auction.draftOrderType,
+    order: order.map((t) => ({ _id: t._id, name: t.name, shortName: t.shortName })),
+    picks,
+    onClock: onClock
+      ? { teamId: onClock.team._id, pickNumber: onClock.pick + 1, round: onClock.round }
+      : null,
+  };
+};
+
+export default {
+  getDraftOrder,
+  getTeamOnClock,
+  setDraftOrder,
+  makePick,
+  skipPick,
+  getAutoPick,
+  getDraftBoard,
+};
@@ -0,0 +1,10 @@
+export { default as bidService } from './bidService';
+export { default as auctionService } from './auctionService';
+export { default as squadService } from './squadService';
+export { default as rightToMatchService } from './rightToMatchService';
+export { default as retentionService } from './retentionService';
+export { default as playerSetService } from './playerSetService';
+export { default as correctionService } from './correctionService';
+export { default as proxyBidService } from './proxyBidService';
+export { default as wishlistService } from './wishlistService';
+export { default as draftService } from './draftService';
@@ -0,0 +1,146 @@
+import { Types } from 'mongoose';
+import { Auction, PlayerRegistration } from '../models';
+import {
+  AuctionStatus,
+  IAuction,
+  IPlayerRegistration,
+  IPlayerSetRequest,
+  PlayerAuctionStatus,
+} from '../types';
+import { NotFoundError, ForbiddenError, ValidationError } from '../middleware/errorHandler';
+
+/**
+ * Fisher-Yates shuffle of a copy of the array
+ */
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Pending players in nomination order: sets in their configured order, then
+ * by position within the set, with unassigned players last in registration order
+ */
+export const getNominationQueue = async (auction: IAuction): Promise<IPlayerRegistration[]> => {
+  const setIndex = new Map(
+    (auction.playerSets || []).map((set, index) => [set._id.toString(), index])
+  );
+  const indexOf = (player: IPlayerRegistration): number =>
+    (player.playerSet && setIndex.get(player.playerSet.toString())) ?? setIndex.size;
+
+  const players = await PlayerRegistration.find({
+    auction: auction._id,
+    status: PlayerAuctionStatus.PENDING,
+  }).populate('user', 'name email avatar');
+
+  return players.sort(
+    (a, b) =>
+      indexOf(a) - indexOf(b) ||
+      (a.setPosition ?? 0) - (b.setPosition ?? 0) ||
+      a.registrationOrder - b.registrationOrder
+  );
+};
+
+/**
+ * Next player to nominate, or null once the pool is exhausted
+ */
+export const getNextPlayer = async (auction: IAuction): Promise<IPlayerRegistration | null> => {
+  const [next] = await getNominationQueue(auction);
+  return next || null;
+};
+
+/**
+ * Name of the set a player belongs to, if it is still configured
+ */
+export const getSetName = (auction: IAuction, player: IPlayerRegistration): string | null => {
+  if (!player.playerSet) return null;
+  const set = auction.playerSets.find((s) => s._id.toString() === player.playerSet!.toString());
+  return set ? set.name : null;
+};
+
+/**
+ * Replace the player sets of an auction. Sets are nominated in the order given
+ * and players within a set in the order listed, unless the set is randomised.
+ */
+export const configurePlayerSets = async (
+  auctionId: string,
+  userId: string,
+  sets: IPlayerSetRequest[]
+): Promise<IAuction> => {
+  const auction = await Auction.findById(auctionId);
+
+  if (!auction) {
+    throw new NotFoundError('Auction not found');
+  }
+
+  // Check ownership
+  if (auction.createdBy.toString() !== userId) {
+    throw new ForbiddenError('Only the auction creator can configure player sets');
+  }
+
+  if (auction.status === AuctionStatus.ENDED) {
+    throw new ValidationError('Cannot change player sets after the auction has ended');
+  }
+
+  const names = sets.map((set) => set.name.trim().toLowerCase());
+  if (new Set(names).size !== names.length) {
+    throw new ValidationError('Set names must be unique');
+  }
+
+  const playerIds = sets.flatMap((set) => set.playerIds);
+  if (new Set(playerIds).size !== playerIds.length) {
+    throw new ValidationError('A player can only belong to one set');
+  }
+
+  const playerCount = await PlayerRegistration.countDocuments({
+    _id: { $in: playerIds },
+    auction: auctionId,
+  });
+  if (playerCount !== playerIds.length) {
+    throw new ValidationError('All players must be registered for this auction');
+  }
+
+  // Keep the ids of existing sets so the set currently being auctioned is not announced again
+  const existingIds = new Map(
+    auction.playerSets.map((set) => [set.name.trim().toLowerCase(), set._id])
+  );
+  const playerSets = sets.map((set) => ({
+    _id: existingIds.get(set.name.trim().toLowerCase()) || new Types.ObjectId(),
+    name: set.name.trim(),
+    randomiseOrder: !!set.randomiseOrder,
+  }));
+
+  await PlayerRegistration.updateMany(
+    { auction: auctionId, _id: { $nin: playerIds } },
+    { $unset: { playerSet: 1, setPosition: 1 } }
+  );
+
+  const updates = sets.flatMap((set, index) => {
+    const ordered = playerSets[index].randomiseOrder ? shuffle(set.playerIds) : set.playerIds;
+    return ordered.map((playerId, position) => ({
+      updateOne: {
+        filter: { _id: new Types.ObjectId(playerId) },
+        update: { $set: { playerSet: playerSets[index]._id, setPosition: position } },
+      },
+    }));
+  });
+  if (updates.length > 0) {
+    await PlayerRegistration.bulkWrite(updates);
+  }
+
+  auction.set('playerSets', playerSets);
+  await auction.save();
+
+  return auction;
+};
+
+export default {
+  getNominationQueue,
+  getNextPlayer,
+  getSetName,
+  configurePlayerSets,
+};
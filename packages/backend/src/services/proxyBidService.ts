@@ -0,0 +1,158 @@
+import { Auction, PlayerRegistration, ProxyBid, Team } from '../models';
+import { AuctionFormat, AuctionStatus, IProxyBid, PlayerAuctionStatus } from '../types';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { getMaxBid, getMinimumBid } from './bidService';
+import { getSquadViolation } from './squadService';
+
+export interface ISetProxyBidInput {
+  auctionId: string;
+  playerId: string;
+  ownerId: string;
+  maxAmount: number;
+}
+
+export interface IProxyCounterBid {
+  proxy: IProxyBid;
+  amount: number;
+}
+
+/**
+ * Team owned by the user in an auction
+ */
+const getOwnTeam = async (auctionId: string, ownerId: string) => {
+  const team = await Team.findOne({ auction: auctionId, owner: ownerId, isActive: true });
+  if (!team) {
+    throw new NotFoundError('You do not have a team in this auction');
+  }
+  return team;
+};
+
+/**
+ * Create or update a team's proxy ceiling for a player
+ */
+export const setProxyBid = async (input: ISetProxyBidInput): Promise<IProxyBid> => {
+  const { auctionId, playerId, ownerId, maxAmount } = input;
+
+  const auction = await Auction.findById(auctionId);
+  if (!auction) {
+    throw new NotFoundError('Auction not found');
+  }
+
+  if (auction.status === AuctionStatus.ENDED) {
+    throw new ValidationError('Auction has already ended');
+  }
+
+  if (auction.format === AuctionFormat.SEALED) {
+    throw new ValidationError('Proxy bids are not available in sealed-bid auctions');
+  }
+
+  const player = await PlayerRegistration.findOne({ _id: playerId, auction: auctionId });
+  if (!player) {
+    throw new NotFoundError('Player registration not found');
+  }
+
+  if (
+    player.status !== PlayerAuctionStatus.PENDING &&
+    player.status !== PlayerAuctionStatus.IN_AUCTION
+  ) {
+    throw new ValidationError('Player is no longer available');
+  }
+
+  if (maxAmount < player.basePrice) {
+    throw new ValidationError(`Proxy ceiling must be at least the base price of ${player.basePrice}`);
+  }
+
+  const team = await getOwnTeam(auctionId, ownerId);
+
+  return ProxyBid.findOneAndUpdate(
+    { player: playerId, team: team._id },
+    { auction: auctionId, owner: ownerId, maxAmount, isActive: true },
+    { new: true, upsert: true, runValidators: true }
+  ) as Promise<IProxyBid>;
+};
+
+/**
+ * Stop bidding automatically for a player
+ */
+export const cancelProxyBid = async (
+  auctionId: string,
+  playerId: string,
+  ownerId: string
+): Promise<void> => {
+  const team = await getOwnTeam(auctionId, ownerId);
+
+  const proxy = await ProxyBid.findOneAndUpdate(
+    { player: playerId, team: team._id, isActive: true },
+    { isActive: false }
+  );
+  if (!proxy) {
+    throw new NotFoundError('No proxy bid set for this player');
+  }
+};
+
+/**
+ * Active proxy ceilings of the user's team in an auction
+ */
+export const getMyProxyBids = async (auctionId: string, ownerId: string): Promise<IProxyBid[]> => {
+  const team = await getOwnTeam(auctionId, ownerId);
+
+  return ProxyBid.find({ auction: auctionId, team: team._id, isActive: true }).populate({
+    path: 'player',
+    select: 'user playerRole basePrice status',
+    populate: { path: 'user', select: 'name' },
+  });
+};
+
+/**
+ * The counter-bid a proxy should place for the player on the block, if any.
+ * The highest ceiling bids first; proxies that can no longer beat the current
+ * bid within their ceiling or the team's roster-aware limit are retired.
+ */
+export const getNextProxyBid = async (
+  auctionId: string,
+  playerId: string
+): Promise<IProxyCounterBid | null> => {
+  const auction = await Auction.findById(auctionId);
+  if (
+    !auction ||
+    auction.status !== AuctionStatus.LIVE ||
+    auction.format === AuctionFormat.SEALED ||
+    auction.pendingRightToMatch
+  ) {
+    return null;
+  }
+
+  const player = await PlayerRegistration.findById(playerId);
+  if (!player || player.status !== PlayerAuctionStatus.IN_AUCTION) {
+    return null;
+  }
+
+  const proxies = await ProxyBid.find({
+    player: playerId,
+    isActive: true,
+    ...(player.currentBidTeam && { team: { $ne: player.currentBidTeam } }),
+  }).sort({ maxAmount: -1, createdAt: 1 });
+
+  const amount = getMinimumBid(auction, player);
+
+  for (const proxy of proxies) {
+    const team = await Team.findOne({ _id: proxy.team, isActive: true });
+    const limit = team ? Math.min(proxy.maxAmount, getMaxBid(auction, team)) : 0;
+
+    if (team && amount <= limit && !(await getSquadViolation(auction, team, player))) {
+      return { proxy, amount };
+    }
+
+    proxy.isActive = false;
+    await proxy.save();
+  }
+
+  return null;
+};
+
+export default {
+  setProxyBid,
+  cancelProxyBid,
+  getMyProxyBids,
+  getNextProxyBid,
+};
@@ -0,0 +1,156 @@
+import { Auction, PlayerRegistration, Team } from '../models';
+import {
+  AcquisitionSource,
+  AuctionStatus,
+  IAuction,
+  IPlayerRegistration,
+  ITeam,
+  PlayerAuctionStatus,
+} from '../types';
+import {
+  NotFoundError,
+  ForbiddenError,
+  ValidationError,
+} from '../middleware/errorHandler';
+import { getMaxBid } from './bidService';
+import { getSquadViolation } from './squadService';
+
+export interface IRetainPlayerInput {
+  auctionId: string;
+  teamId: string;
+  playerId: string;
+  price: number;
+  userId: string;
+}
+
+export interface IRetentionResult {
+  team: ITeam;
+  player: IPlayerRegistration;
+}
+
+/**
+ * Load an auction that is still open for retentions
+ */
+const getRetentionAuction = async (auctionId: string, userId: string): Promise<IAuction> => {
+  const auction = await Auction.findById(auctionId);
+
+  if (!auction) {
+    throw new NotFoundError('Auction not found');
+  }
+
+  if (auction.createdBy.toString() !== userId) {
+    throw new ForbiddenError('Only the auction creator can manage retentions');
+  }
+
+  if (auction.status !== AuctionStatus.UPCOMING) {
+    throw new ValidationError('Retentions can only be changed before the auction starts');
+  }
+
+  return auction;
+};
+
+/**
+ * Number of players a team has retained
+ */
+export const getRetainedCount = (team: ITeam): number =>
+  team.acquiredPlayers.filter((p) => p.source === AcquisitionSource.RETAINED).length;
+
+/**
+ * Retain a player for a team at a fixed price. The price is deducted from the
+ * team's budget and the player is kept off the block.
+ */
+export const retainPlayer = async (input: IRetainPlayerInput): Promise<IRetentionResult> => {
+  const { auctionId, teamId, playerId, price, userId } = input;
+
+  const auction = await getRetentionAuction(auctionId, userId);
+
+  const team = await Team.findOne({ _id: teamId, auction: auctionId, isActive: true });
+  if (!team) {
+    throw new NotFoundError('Team not found in this auction');
+  }
+
+  const player = await PlayerRegistration.findOne({ _id: playerId, auction: auctionId });
+  if (!player) {
+    throw new NotFoundError('Player registration not found');
+  }
+
+  if (player.status !== PlayerAuctionStatus.PENDING) {
+    throw new ValidationError('Only players awaiting auction can be retained');
+  }
+
+  if (getRetainedCount(team) >= auction.maxRetentionsPerTeam) {
+    throw new ValidationError(
+      `Teams can retain at most ${auction.maxRetentionsPerTeam} players in this auction`
+    );
+  }
+
+  // Retentions must leave enough budget to fill the rest of the squad
+  const maxPrice = getMaxBid(auction, team);
+  if (price > maxPrice) {
+    throw new ValidationError(`Retention price cannot exceed ${maxPrice} for this team`);
+  }
+
+  const squadViolation = await getSquadViolation(auction, team, player);
+  if (squadViolation) {
+    throw new ValidationError(squadViolation);
+  }
+
+  player.status = PlayerAuctionStatus.RETAINED;
+  player.soldPrice = price;
+  player.soldTo = team._id;
+  await player.save();
+
+  team.remainingBudget -= price;
+  team.acquiredPlayers.push({
+    player: player._id,
+    soldPrice: price,
+    acquiredAt: new Date(),
+    source: AcquisitionSource.RETAINED,
+  });
+  await team.save();
+
+  return { team, player };
+};
+
+/**
+ * Undo a retention, refunding the price and returning the player to the pool
+ */
+export const releaseRetention = async (
+  auctionId: string,
+  playerId: string,
+  userId: string
+): Promise<IRetentionResult> => {
+  await getRetentionAuction(auctionId, userId);
+
+  const player = await PlayerRegistration.findOne({ _id: playerId, auction: auctionId });
+  if (!player || player.status !== PlayerAuctionStatus.RETAINED) {
+    throw new NotFoundError('Retained player not found');
+  }
+
+  const team = await Team.findById(player.soldTo);
+  if (!team) {
+    throw new NotFoundError('Team not found');
+  }
+
+  const retention = team.acquiredPlayers.find(
+    (p) => p.player.toString() === playerId && p.source === AcquisitionSource.RETAINED
+  );
+  if (retention) {
+    team.remainingBudget += retention.soldPrice;
+    team.acquiredPlayers = team.acquiredPlayers.filter((p) => p !== retention);
+    await team.save();
+  }
+
+  player.status = PlayerAuctionStatus.PENDING;
+  player.soldPrice = undefined;
+  player.soldTo = undefined;
+  await player.save();
+
+  return { team, player };
+};
+
+export default {
+  getRetainedCount,
+  retainPlayer,
+  releaseRetention,
+};
@@ -0,0 +1,59 @@
+import { Team } from '../models';
+import { AcquisitionSource, IAuction, IPlayerRegistration, ITeam } from '../types';
+import { getMaxBid } from './bidService';
+import { getSquadViolation } from './squadService';
+
+/**
+ * Right-to-Match cards a team has left
+ */
+export const getCardsRemaining = (auction: IAuction, team: ITeam): number => {
+  const used = team.acquiredPlayers.filter(
+    (p) => p.source === AcquisitionSource.RIGHT_TO_MATCH
+  ).length;
+  return Math.max(0, (auction.rtmCardsPerTeam || 0) - used);
+};
+
+/**
+ * Team entitled to match the winning bid for a player, if any. The player's
+ * previous team qualifies when it did not win the lot itself, has a card left,
+ * can afford the price and has room for the player in its squad.
+ */
+export const getMatchingTeam = async (
+  auction: IAuction,
+  player: IPlayerRegistration,
+  winningTeamId: string,
+  amount: number
+): Promise<ITeam | null> => {
+  if (!auction.rtmCardsPerTeam || !player.previousTeam) {
+    return null;
+  }
+
+  if (player.previousTeam.toString() === winningTeamId) {
+    return null;
+  }
+
+  const team = await Team.findOne({
+    _id: player.previousTeam,
+    auction: auction._id,
+    isActive: true,
+  });
+
+  if (!team || getCardsRemaining(auction, team) < 1) {
+    return null;
+  }
+
+  if (amount > getMaxBid(auction, team)) {
+    return null;
+  }
+
+  if (await getSquadViolation(auction, team, player)) {
+    return null;
+  }
+
+  return team;
+};
+
+export default {
+  getCardsRemaining,
+  getMatchingTeam,
+};
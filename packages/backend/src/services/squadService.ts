@@ -0,0 +1,107 @@
+import { PlayerRegistration } from '../models';
+import { IAuction, IPlayerRegistration, ISquadRules, ITeam } from '../types';
+import { ValidationError } from '../middleware/errorHandler';
+
+/**
+ * Whether a player counts towards the overseas quota
+ */
+const isOverseas = (rules: ISquadRules, player: IPlayerRegistration): boolean => {
+  const nationality = player.profile?.nationality?.trim().toLowerCase();
+  const home = rules.homeNationality?.trim().toLowerCase();
+  return !!home && !!nationality && nationality !== home;
+};
+
+/**
+ * Check the squad rules of an auction for configuration errors
+ */
+export const validateSquadRules = (
+  rules: ISquadRules,
+  roles: string[],
+  maxPlayersPerTeam?: number
+): void => {
+  const roleLimits = rules.roleLimits || [];
+
+  roleLimits.forEach((limit) => {
+    if (!roles.includes(limit.role)) {
+      throw new ValidationError(
+        `Invalid role in squad rules. Allowed roles: ${roles.join(', ')}`
+      );
+    }
+
+    if (typeof limit.min === 'number' && typeof limit.max === 'number' && limit.min > limit.max) {
+      throw new ValidationError(`Minimum ${limit.role} count cannot exceed the maximum`);
+    }
+  });
+
+  const totalMinimum = roleLimits.reduce((sum, limit) => sum + (limit.min || 0), 0);
+  if (maxPlayersPerTeam && totalMinimum > maxPlayersPerTeam) {
+    throw new ValidationError('Role minimums exceed the maximum squad size');
+  }
+
+  if (typeof rules.maxOverseasPlayers === 'number' && !rules.homeNationality) {
+    throw new ValidationError('Home nationality is required to limit overseas players');
+  }
+};
+
+/**
+ * Reason a team may not acquire a player under the auction's squad rules,
+ * or null if the player fits
+ */
+export const getSquadViolation = async (
+  auction: IAuction,
+  team: ITeam,
+  player: IPlayerRegistration
+): Promise<string | null> => {
+  const squadSize = team.acquiredPlayers.length;
+
+  if (auction.maxPlayersPerTeam && squadSize >= auction.maxPlayersPerTeam) {
+    return `Squad is full (maximum ${auction.maxPlayersPerTeam} players)`;
+  }
+
+  const rules = auction.squadRules;
+  if (!rules) {
+    return null;
+  }
+
+  const squad = await PlayerRegistration.find({
+    _id: { $in: team.acquiredPlayers.map((p) => p.player) },
+  }).select('playerRole profile');
+
+  // Number of players in a role once this player has joined
+  const countWithPlayer = (role: string): number =>
+    squad.filter((p) => p.playerRole === role).length + (player.playerRole === role ? 1 : 0);
+
+  const roleLimit = rules.roleLimits.find((limit) => limit.role === player.playerRole);
+  if (typeof roleLimit?.max === 'number' && countWithPlayer(player.playerRole) > roleLimit.max) {
+    return `Squad already has the maximum of ${roleLimit.max} ${player.playerRole} players`;
+  }
+
+  if (typeof rules.maxOverseasPlayers === 'number' && isOverseas(rules, player)) {
+    const overseasCount = squad.filter((p) => isOverseas(rules, p)).length;
+    if (overseasCount >= rules.maxOverseasPlayers) {
+      return `Squad already has the maximum of ${rules.maxOverseasPlayers} overseas players`;
+    }
+  }
+
+  // The slots left afterwards must still cover every role minimum
+  if (auction.maxPlayersPerTeam) {
+    const slotsLeft = auction.maxPlayersPerTeam - squadSize - 1;
+    const shortfalls = rules.roleLimits
+      .map((limit) => ({ role: limit.role, needed: (limit.min || 0) - countWithPlayer(limit.role) }))
+      .filter((shortfall) => shortfall.needed > 0);
+    const needed = shortfalls.reduce((sum, shortfall) => sum + shortfall.needed, 0);
+
+    if (needed > slotsLeft) {
+      return `Remaining squad slots are needed for ${shortfalls
+        .map((shortfall) => `${shortfall.needed} ${shortfall.role}`)
+        .join(', ')}`;
+    }
+  }
+
+  return null;
+};
+
+export default {
+  validateSquadRules,
+  getSquadViolation,
+};
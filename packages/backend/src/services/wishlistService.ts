@@ -0,0 +1,103 @@
+import { PlayerRegistration, Team, WishlistEntry } from '../models';
+import { ITeam, IWishlistEntry, IWishlistEntryRequest, WishlistPriority } from '../types';
+import { NotFoundError, ForbiddenError } from '../middleware/errorHandler';
+
+// Lower rank is shortlisted more strongly
+const PRIORITY_RANK: Record<WishlistPriority, number> = {
+  [WishlistPriority.HIGH]: 0,
+  [WishlistPriority.MEDIUM]: 1,
+  [WishlistPriority.LOW]: 2,
+};
+
+/**
+ * Load a team the user owns. Wishlists are private to the owning team.
+ */
+const getOwnTeam = async (teamId: string, ownerId: string): Promise<ITeam> => {
+  const team = await Team.findById(teamId);
+
+  if (!team) {
+    throw new NotFoundError('Team not found');
+  }
+
+  if (team.owner.toString() !== ownerId) {
+    throw new ForbiddenError('You can only manage your own wishlist');
+  }
+
+  return team;
+};
+
+/**
+ * Order entries by priority, then by the highest target price
+ */
+export const sortByPriority = (entries: IWishlistEntry[]): IWishlistEntry[] =>
+  [...entries].sort(
+    (a, b) =>
+      PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+      (b.targetPrice ?? 0) - (a.targetPrice ?? 0)
+  );
+
+/**
+ * A team's wishlist in priority order
+ */
+export const getWishlist = async (teamId: string, ownerId: string): Promise<IWishlistEntry[]> => {
+  const team = await getOwnTeam(teamId, ownerId);
+
+  const entries = await WishlistEntry.find({ team: team._id }).populate({
+    path: 'player',
+    select: 'user playerRole basePrice status',
+    populate: { path: 'user', select: 'name avatar' },
+  });
+
+  return sortByPriority(entries);
+};
+
+/**
+ * Shortlist a player, or update the priority and target price of an entry
+ */
+export const saveWishlistEntry = async (
+  teamId: string,
+  ownerId: string,
+  playerId: string,
+  data: IWishlistEntryRequest
+): Promise<IWishlistEntry> => {
+  const team = await getOwnTeam(teamId, ownerId);
+
+  const player = await PlayerRegistration.findOne({ _id: playerId, auction: team.auction });
+  if (!player) {
+    throw new NotFoundError('Player is not registered for this auction');
+  }
+
+  return WishlistEntry.findOneAndUpdate(
+    { team: team._id, player: player._id },
+    {
+      auction: team.auction,
+      priority: data.priority,
+      targetPrice: data.targetPrice,
+      notes: data.notes,
+    },
+    { new: true, upsert: true, runValidators: true }
+  ) as Promise<IWishlistEntry>;
+};
+
+/**
+ * Take a player off a team's wishlist
+ */
+export const removeWishlistEntry = async (
+  teamId: string,
+  ownerId: string,
+  playerId: string
+): Promise<void> => {
+  const team = await getOwnTeam(teamId, ownerId);
+
+  const entry = await WishlistEntry.findOneAndDelete({ team: team._id, player: playerId });
+  if (!entry) {
+    throw new NotFoundError('Player is not on your wishlist');
+  }
+};
+
+export default {
+  sortByPriority,
+  getWishlist,
+  saveWishlistEntry,
+  removeWishlistEntry,
+};
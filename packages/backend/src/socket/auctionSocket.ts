@@ -1,37 +1,76 @@
-import { Server as SocketIOServer, Socket } from 'socket.io';
+import { Server as SocketIOServer } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import jwt from 'jsonwebtoken';
 import config from '../config';
 import { User, Auction, Team, PlayerRegistration, Bid } from '../models';
-import { AuctionStatus, PlayerAuctionStatus, BidStatus, IJwtPayload, UserRole } from '../types';
-import AuctionTimerManager from './timerManager';
-
-// Socket event constants
-export const SOCKET_EVENTS = {
-  // Client -> Server
-  JOIN_AUCTION: 'join_auction',
-  LEAVE_AUCTION: 'leave_auction',
-  PLACE_BID: 'place_bid',
-  ADMIN_PUT_ON_BLOCK: 'admin_put_on_block',
-  ADMIN_END_PLAYER_BIDDING: 'admin_end_player_bidding',
-  ADMIN_START_AUCTION: 'admin_start_auction',
-  ADMIN_PAUSE_AUCTION: 'admin_pause_auction',
-
-  // Server -> Client
-  AUCTION_STATE: 'auction_state',
-  PLAYER_ON_BLOCK: 'player_on_block',
-  BID_UPDATE: 'bid_update',
-  TIMER_UPDATE: 'timer_update',
-  PLAYER_SOLD: 'player_sold',
-  PLAYER_UNSOLD: 'player_unsold',
-  AUCTION_STARTED: 'auction_started',
-  AUCTION_PAUSED: 'auction_paused',
-  AUCTION_ENDED: 'auction_ended',
-  ERROR: 'error',
-  TEAM_UPDATE: 'team_update',
-};
-
-interface AuthenticatedSocket extends Socket {
+import {
+  AcquisitionSource,
+  AuctionFormat,
+  AuctionStatus,
+  ErrorCode,
+  PlayerAuctionStatus,
+  BidStatus,
+  ClientToServerEvents,
+  IAuction,
+  IAuctionServer,
+  IAuctionSocket,
+  IAuctionStatePayload,
+  IAuctionStatusPayload,
+  IAutoRunPayload,
+  IBid,
+  IBidAckPayload,
+  IErrorPayload,
+  IDraftBoardState,
+  IDraftOnClockPayload,
+  IDraftPickPayload,
+  IJwtPayload,
+  ILotPassedPayload,
+  IPlayerRegistration,
+  IPlayerWithdrawnPayload,
+  IResyncPayload,
+  IProxyBid,
+  IRightToMatchOfferPayload,
+  IRoundStartedPayload,
+  LotPhase,
+  ISaleCorrectedPayload,
+  ISealedBidsRevealedPayload,
+  ISetChangedPayload,
+  ITeam,
+  ServerToClientEvents,
+  SOCKET_EVENTS,
+  UserRole,
+} from '../types';
+import { ApiError, BidRejectedError } from '../middleware/errorHandler';
+import {
+  auctionService,
+  draftService,
+  bidService,
+  correctionService,
+  playerSetService,
+  proxyBidService,
+  rightToMatchService,
+  squadService,
+} from '../services';
+import type { IPlaceBidInput, IPlaceBidResult } from '../services/bidService';
+import type { ISetProxyBidInput } from '../services/proxyBidService';
+import type { IMakePickInput } from '../services/draftService';
+import type { IOpenRoundInput, IWithdrawPlayerResult } from '../services/auctionService';
+import type { ICorrectionResult, IReassignSaleInput } from '../services/correctionService';
+import AuctionTimerManager, { ITimerOptions, LEASE_TTL_MS } from './timerManager';
+import { CLUSTER_EVENTS, createSocketCluster, ISocketCluster } from './cluster';
+import AuctionEventLog from './eventLog';
+
+export { SOCKET_EVENTS };
+
+// Rejections that mean a proxy's team cannot bid any higher on the lot
+const PROXY_RETIRING_CODES: ErrorCode[] = [
+  ErrorCode.BUDGET_EXCEEDED,
+  ErrorCode.MAX_BID_EXCEEDED,
+  ErrorCode.SQUAD_RULE_VIOLATION,
+  ErrorCode.PASSED,
+];
+
+interface AuthenticatedSocket extends IAuctionSocket {
   userId?: string;
   userRole?: UserRole;
   userName?: string;
@@ -40,11 +79,14 @@ interface AuthenticatedSocket extends Socket {
 }
 
 class AuctionSocketManager {
-  private io: SocketIOServer;
+  private io: IAuctionServer;
+  private cluster: ISocketCluster;
+  private eventLog: AuctionEventLog;
   private timerManager: AuctionTimerManager;
+  private nextLotTimers: Map<string, NodeJS.Timeout> = new Map();
 
   constructor(httpServer: HTTPServer) {
-    this.io = new SocketIOServer(httpServer, {
+    this.io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents>(httpServer, {
       cors: {
         origin: config.clientUrl,
         methods: ['GET', 'POST'],
@@ -54,11 +96,37 @@ class AuctionSocketManager {
       pingInterval: 25000,
     });
 
-    this.timerManager = new AuctionTimerManager(this.io);
+    this.cluster = createSocketCluster(this.io);
+    this.eventLog = new AuctionEventLog(this.io);
+    this.timerManager = new AuctionTimerManager(this.io, this.cluster, this.eventLog, (auctionId) =>
+      this.clearNextLot(auctionId)
+    );
+    this.cluster.onPeerEvent(CLUSTER_EVENTS.CANCEL_NEXT_LOT, (auctionId) =>
+      this.clearNextLot(auctionId)
+    );
+    this.cluster.onPeerEvent(CLUSTER_EVENTS.RESUME_AUCTION, (auctionId) => {
+      this.handleResumeRequest(auctionId).catch((error) =>
+        console.error('Forwarded timer start failed:', error)
+      );
+    });
     this.setupMiddleware();
     this.setupEventHandlers();
   }
 
+  /**
+   * Join the other backend instances. With several instances, each one keeps
+   * adopting auctions whose owner has gone down.
+   */
+  public async connectCluster(): Promise<void> {
+    await this.cluster.connect();
+
+    if (this.cluster.isDistributed) {
+      setInterval(() => {
+        this.restoreTimers().catch((error) => console.error('Auction failover failed:', error));
+      }, LEASE_TTL_MS);
+    }
+  }
+
   private setupMiddleware(): void {
     // Authentication middleware
     this.io.use(async (socket: AuthenticatedSocket, next) => {
@@ -96,14 +164,24 @@ class AuctionSocketManager {
         await this.handleJoinAuction(socket, data);
       });
 
+      // Rejoin after a reconnect and catch up on missed events
+      socket.on(SOCKET_EVENTS.RESYNC, async (data: IResyncPayload) => {
+        await this.handleResync(socket, data);
+      });
+
       // Leave auction room
       socket.on(SOCKET_EVENTS.LEAVE_AUCTION, () => {
         this.handleLeaveAuction(socket);
       });
 
       // Place bid
-      socket.on(SOCKET_EVENTS.PLACE_BID, async (data) => {
-        await this.handlePlaceBid(socket, data);
+      socket.on(SOCKET_EVENTS.PLACE_BID, async (data, ack?: (result: IBidAckPayload) => void) => {
+        await this.handlePlaceBid(socket, data, ack);
+      });
+
+      // Pass on the player on the block
+      socket.on(SOCKET_EVENTS.PASS, async (data) => {
+        await this.handlePass(socket, data);
       });
 
       // Admin: Put player on block
@@ -116,6 +194,41 @@ class AuctionSocketManager {
         await this.handleEndPlayerBidding(socket, data);
       });
 
+      // Respond to a Right-to-Match offer
+      socket.on(SOCKET_EVENTS.RTM_RESPONSE, async (data) => {
+        await this.handleRightToMatchResponse(socket, data);
+      });
+
+      // Make a pick in a draft
+      socket.on(SOCKET_EVENTS.DRAFT_PICK, async (data) => {
+        await this.handleDraftPick(socket, data);
+      });
+
+      // Admin: Start or resume auction
+      socket.on(SOCKET_EVENTS.ADMIN_START_AUCTION, async () => {
+        await this.handleStartAuction(socket);
+      });
+
+      // Admin: Pause auction
+      socket.on(SOCKET_EVENTS.ADMIN_PAUSE_AUCTION, async () => {
+        await this.handlePauseAuction(socket);
+      });
+
+      // Admin: Turn auto-run mode on or off
+      socket.on(SOCKET_EVENTS.ADMIN_SET_AUTO_RUN, async (data) => {
+        await this.handleSetAutoRun(socket, data);
+      });
+
+      // Admin: Skip the player on the block (or the wait for the next one)
+      socket.on(SOCKET_EVENTS.ADMIN_SKIP_PLAYER, async () => {
+        await this.handleSkipPlayer(socket);
+      });
+
+      // Admin: Withdraw the player on the block back to the pool
+      socket.on(SOCKET_EVENTS.ADMIN_WITHDRAW_PLAYER, async () => {
+        await this.handleWithdrawPlayer(socket);
+      });
+
       // Disconnect
       socket.on('disconnect', () => {
         console.log(`User disconnected: ${socket.userName}`);
@@ -131,48 +244,99 @@ class AuctionSocketManager {
     try {
       const { auctionId, password } = data;
 
-      // Verify auction exists
-      const auction = await Auction.findById(auctionId).select('+passwordHash');
-      if (!auction) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Auction not found' });
-        return;
-      }
-
-      // Verify password
-      const bcrypt = require('bcryptjs');
-      const isPasswordValid = await bcrypt.compare(password, auction.passwordHash);
-      if (!isPasswordValid) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Invalid auction password' });
-        return;
-      }
-
-      // If team owner, find their team
-      if (socket.userRole === UserRole.TEAM_OWNER) {
-        const team = await Team.findOne({
-          auction: auctionId,
-          owner: socket.userId,
-          isActive: true,
-        });
-        if (team) {
-          socket.teamId = team._id.toString();
-        }
-      }
-
-      // Join auction room
-      socket.auctionId = auctionId;
-      socket.join(`auction:${auctionId}`);
+      const auction = await this.joinRoom(socket, auctionId, password);
+      if (!auction) return;
 
       // Send current auction state
       const state = await this.getAuctionState(auctionId);
-      socket.emit(SOCKET_EVENTS.AUCTION_STATE, state);
+      if (state) socket.emit(SOCKET_EVENTS.AUCTION_STATE, state);
 
       console.log(`${socket.userName} joined auction: ${auction.name}`);
     } catch (error) {
       console.error('Error joining auction:', error);
-      socket.emit(SOCKET_EVENTS.ERROR, { message: 'Failed to join auction' });
+      socket.emit(SOCKET_EVENTS.ERROR, {
+        code: ErrorCode.INTERNAL_ERROR,
+        message: 'Failed to join auction',
+      });
+    }
+  }
+
+  /**
+   * Put a reconnected client back in its auction room and replay the events
+   * it missed, or send the full state when they are no longer all kept
+   */
+  private async handleResync(socket: AuthenticatedSocket, data: IResyncPayload): Promise<void> {
+    try {
+      const { auctionId, password, lastSeq } = data;
+
+      const auction = await this.joinRoom(socket, auctionId, password);
+      if (!auction) return;
+
+      const events = await this.eventLog.getEventsSince(auctionId, lastSeq);
+      if (!events) {
+        const state = await this.getAuctionState(auctionId);
+        if (state) socket.emit(SOCKET_EVENTS.AUCTION_STATE, state);
+        console.log(`${socket.userName} resynced auction: ${auction.name} (full state)`);
+        return;
+      }
+
+      this.eventLog.replay(socket, events);
+      console.log(`${socket.userName} resynced auction: ${auction.name} (${events.length} events)`);
+    } catch (error) {
+      console.error('Error resyncing auction:', error);
+      socket.emit(SOCKET_EVENTS.ERROR, {
+        code: ErrorCode.INTERNAL_ERROR,
+        message: 'Failed to resync auction',
+      });
     }
   }
 
+  /**
+   * Check the auction password and add the socket to the auction room, or
+   * report why it cannot join
+   */
+  private async joinRoom(
+    socket: AuthenticatedSocket,
+    auctionId: string,
+    password: string
+  ): Promise<IAuction | null> {
+    // Verify auction exists
+    const auction = await Auction.findById(auctionId).select('+passwordHash');
+    if (!auction) {
+      socket.emit(SOCKET_EVENTS.ERROR, { code: ErrorCode.NOT_FOUND, message: 'Auction not found' });
+      return null;
+    }
+
+    // Verify password
+    const bcrypt = require('bcryptjs');
+    const isPasswordValid = await bcrypt.compare(password, auction.passwordHash);
+    if (!isPasswordValid) {
+      socket.emit(SOCKET_EVENTS.ERROR, {
+        code: ErrorCode.INVALID_AUCTION_PASSWORD,
+        message: 'Invalid auction password',
+      });
+      return null;
+    }
+
+    // If team owner, find their team
+    if (socket.userRole === UserRole.TEAM_OWNER) {
+      const team = await Team.findOne({
+        auction: auctionId,
+        owner: socket.userId,
+        isActive: true,
+      });
+      if (team) {
+        socket.teamId = team._id.toString();
+      }
+    }
+
+    // Join auction room
+    socket.auctionId = auctionId;
+    socket.join(`auction:${auctionId}`);
+
+    return auction;
+  }
+
   private handleLeaveAuction(socket: AuthenticatedSocket): void {
     if (socket.auctionId) {
       socket.leave(`auction:${socket.auctionId}`);
@@ -181,172 +345,389 @@ class AuctionSocketManager {
     }
   }
 
+  /**
+   * Place a bid and acknowledge it. A bid carrying an idempotency key the team
+   * already used is acknowledged again without being placed twice. Clients
+   * that do not ask for an acknowledgement hear about rejections as errors.
+   */
   private async handlePlaceBid(
     socket: AuthenticatedSocket,
-    data: { playerId: string; amount: number }
+    data: { playerId: string; amount: number; idempotencyKey?: string },
+    ack?: (result: IBidAckPayload) => void
   ): Promise<void> {
-    try {
-      const { playerId, amount } = data;
+    const { playerId, amount, idempotencyKey } = data;
 
-      if (socket.userRole !== UserRole.TEAM_OWNER) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Only team owners can bid' });
-        return;
-      }
+    const respond = (result: IBidAckPayload): void => {
+      ack?.(result);
+    };
 
-      if (!socket.teamId || !socket.auctionId) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Not in an auction room' });
-        return;
+    const reject = (error: IErrorPayload): void => {
+      if (ack) {
+        ack({ idempotencyKey, accepted: false, ...error });
+      } else {
+        socket.emit(SOCKET_EVENTS.ERROR, error);
       }
+    };
 
-      // Get auction
-      const auction = await Auction.findById(socket.auctionId);
-      if (!auction || auction.status !== AuctionStatus.LIVE) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Auction is not live' });
-        return;
+    const findPlacedBid = async (): Promise<IBidAckPayload | null> => {
+      if (!idempotencyKey || !socket.teamId) return null;
+
+      const bid = await bidService.findBidByIdempotencyKey(socket.teamId, idempotencyKey);
+      if (!bid) return null;
+
+      return {
+        idempotencyKey,
+        accepted: true,
+        bidId: bid._id.toString(),
+        amount: bid.amount,
+        duplicate: true,
+      };
+    };
+
+    try {
+      if (socket.userRole !== UserRole.TEAM_OWNER) {
+        throw new ApiError('Only team owners can bid', 403, ErrorCode.TEAM_OWNER_ONLY);
       }
 
-      // Get player
-      const player = await PlayerRegistration.findById(playerId).populate('user', 'name');
-      if (!player || player.status !== PlayerAuctionStatus.IN_AUCTION) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Player is not on the block' });
-        return;
+      if (!socket.teamId || !socket.auctionId) {
+        throw new BidRejectedError('Not in an auction room', ErrorCode.NOT_IN_AUCTION);
       }
 
-      // Get team
-      const team = await Team.findById(socket.teamId);
-      if (!team) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Team not found' });
+      const placed = await findPlacedBid();
+      if (placed) {
+        respond(placed);
         return;
       }
 
-      // Validate bid amount
-      const currentHighestBid = await Bid.findOne({
-        player: playerId,
-        status: BidStatus.ACTIVE,
-      }).sort({ amount: -1 });
-
-      const minimumBid = currentHighestBid
-        ? currentHighestBid.amount + auction.bidIncrementAmount
-        : player.basePrice;
+      const { bid } = await this.acceptBid(
+        {
+          auctionId: socket.auctionId,
+          playerId,
+          teamId: socket.teamId,
+          bidderId: socket.userId!,
+          amount,
+          idempotencyKey,
+        },
+        socket.userName
+      );
 
-      if (amount < minimumBid) {
-        socket.emit(SOCKET_EVENTS.ERROR, {
-          message: `Minimum bid is ${minimumBid}`,
-        });
+      respond({ idempotencyKey, accepted: true, bidId: bid._id.toString(), amount: bid.amount });
+    } catch (error) {
+      // A retry racing the original finds its key taken; report how the original went
+      const placed = await findPlacedBid().catch(() => null);
+      if (placed) {
+        respond(placed);
         return;
       }
 
-      // Check budget
-      if (team.remainingBudget < amount) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Insufficient budget' });
+      if (error instanceof ApiError) {
+        reject(error.toPayload());
         return;
       }
+      console.error('Error placing bid:', error);
+      reject({ code: ErrorCode.INTERNAL_ERROR, message: 'Failed to place bid' });
+    }
+  }
 
-      // Create bid
-      const bid = new Bid({
-        auction: socket.auctionId,
-        player: playerId,
-        team: socket.teamId,
-        bidder: socket.userId,
-        amount,
-        status: BidStatus.ACTIVE,
-        timestamp: new Date(),
+  /**
+   * Accept a bid, restart the lot timer and broadcast it, then let proxy
+   * ceilings of the outbid teams respond
+   */
+  public async acceptBid(input: IPlaceBidInput, bidderName?: string): Promise<IPlaceBidResult> {
+    const result = await this.commitBid(input, bidderName);
+    await this.runProxyBids(input.auctionId, input.playerId);
+    return result;
+  }
+
+  private async commitBid(input: IPlaceBidInput, bidderName?: string): Promise<IPlaceBidResult> {
+    const { auctionId, playerId, amount } = input;
+    const result = await bidService.placeBid(input);
+    const { auction, player, team } = result;
+
+    // Sealed lots run for a fixed window and only announce that a bid came in
+    if (auction.format === AuctionFormat.SEALED) {
+      const bidCount = await Bid.countDocuments({ player: playerId, status: BidStatus.ACTIVE });
+      await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.SEALED_BID_RECEIVED, {
+        auctionId,
+        playerId,
+        bidCount,
       });
+      console.log(`Sealed bid received: ${team.name} for ${(player.user as any).name}`);
+      return result;
+    }
 
-      await bid.save();
+    // Reset timer
+    await this.timerManager.resetTimer(auctionId, playerId);
+
+    // Broadcast bid update
+    await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.BID_UPDATE, {
+      auctionId,
+      playerId,
+      currentBid: amount,
+      teamId: team._id.toString(),
+      teamName: team.name,
+      teamShortName: team.shortName,
+      bidderName,
+      isProxy: !!input.isProxy,
+      timestamp: new Date().toISOString(),
+      // A reset forwarded to the owning instance is announced by its timer update
+      timeRemaining: this.timerManager.hasTimer(auctionId)
+        ? this.timerManager.getTimeRemaining(auctionId)
+        : undefined,
+    });
 
-      // Mark other bids as outbid
-      await Bid.updateMany(
-        {
-          player: playerId,
-          _id: { $ne: bid._id },
-          status: BidStatus.ACTIVE,
-        },
-        { status: BidStatus.OUTBID }
-      );
+    console.log(
+      `Bid placed${input.isProxy ? ' by proxy' : ''}: ${team.name} - ₹${amount} for ${(player.user as any).name}`
+    );
+    return result;
+  }
 
-      // Reset timer
-      this.timerManager.resetTimer(socket.auctionId, playerId);
+  /**
+   * Counter-bid from proxy ceilings until no outbid team can go higher
+   */
+  private async runProxyBids(auctionId: string, playerId: string): Promise<void> {
+    for (;;) {
+      const next = await proxyBidService.getNextProxyBid(auctionId, playerId);
+      if (!next) return;
 
-      // Broadcast bid update
-      this.io.to(`auction:${socket.auctionId}`).emit(SOCKET_EVENTS.BID_UPDATE, {
-        auctionId: socket.auctionId,
-        playerId,
-        currentBid: amount,
-        teamId: socket.teamId,
-        teamName: team.name,
-        teamShortName: team.shortName,
-        bidderName: socket.userName,
-        timestamp: new Date(),
-        timeRemaining: auction.bidTimerSeconds,
-      });
+      try {
+        await this.commitBid(
+          {
+            auctionId,
+            playerId,
+            teamId: next.proxy.team.toString(),
+            bidderId: next.proxy.owner.toString(),
+            amount: next.amount,
+            isProxy: true,
+          },
+          'Proxy bid'
+        );
+      } catch (error) {
+        // A manual bid got in first; re-evaluate against the new current bid
+        if (error instanceof BidRejectedError && error.code === ErrorCode.STALE_BID) {
+          continue;
+        }
 
-      console.log(`Bid placed: ${team.name} - ₹${amount} for ${(player.user as any).name}`);
-    } catch (error) {
-      console.error('Error placing bid:', error);
-      socket.emit(SOCKET_EVENTS.ERROR, { message: 'Failed to place bid' });
+        // The team can no longer bid this much; retire its proxy and let the others respond
+        if (error instanceof BidRejectedError && PROXY_RETIRING_CODES.includes(error.code)) {
+          console.log(`Proxy bid retired for team ${next.proxy.team}: ${error.message}`);
+          next.proxy.isActive = false;
+          await next.proxy.save();
+          continue;
+        }
+
+        console.error('Error placing proxy bid:', error);
+        return;
+      }
     }
   }
 
+  /**
+   * Store a proxy ceiling and, if the player is already on the block, let it
+   * respond to the current bid straight away
+   */
+  public async setProxyBid(input: ISetProxyBidInput): Promise<IProxyBid> {
+    const proxy = await proxyBidService.setProxyBid(input);
+    await this.runProxyBids(input.auctionId, input.playerId);
+    return proxy;
+  }
+
+  /**
+   * Put a player on the block. Without a playerId the next player in the
+   * configured nomination sequence is used.
+   */
   private async handlePutOnBlock(
     socket: AuthenticatedSocket,
-    data: { playerId: string }
+    data: { playerId?: string; auctionId?: string }
   ): Promise<void> {
     try {
       if (socket.userRole !== UserRole.ADMIN) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Admin only action' });
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.ADMIN_ONLY,
+          message: 'Admin only action',
+        });
         return;
       }
 
-      const { playerId } = data;
+      let player: IPlayerRegistration | null;
+      if (data.playerId) {
+        player = await PlayerRegistration.findById(data.playerId);
+      } else {
+        const nominating = await Auction.findById(data.auctionId || socket.auctionId);
+        player = nominating ? await playerSetService.getNextPlayer(nominating) : null;
+        if (nominating && !player) {
+          socket.emit(SOCKET_EVENTS.ERROR, {
+            code: ErrorCode.NO_PLAYERS_PENDING,
+            message: 'No more players pending',
+          });
+          return;
+        }
+      }
 
-      const player = await PlayerRegistration.findById(playerId).populate('user', 'name avatar');
       if (!player) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Player not found' });
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.NOT_FOUND,
+          message: 'Player not found',
+        });
         return;
       }
+      await player.populate('user', 'name avatar');
 
       const auction = await Auction.findById(player.auction);
       if (!auction || auction.status !== AuctionStatus.LIVE) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Auction is not live' });
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.AUCTION_NOT_LIVE,
+          message: 'Auction is not live',
+        });
         return;
       }
 
-      // Update player status
-      player.status = PlayerAuctionStatus.IN_AUCTION;
-      await player.save();
+      if (auction.format === AuctionFormat.DRAFT) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.LOT_CLOSED,
+          message: 'Players are drafted in this auction',
+        });
+        return;
+      }
 
-      // Update auction's current player
-      auction.currentPlayerOnBlock = player._id;
-      await auction.save();
+      await this.putOnBlock(auction, player);
+    } catch (error) {
+      console.error('Error putting player on block:', error);
+      socket.emit(SOCKET_EVENTS.ERROR, {
+        code: ErrorCode.INTERNAL_ERROR,
+        message: 'Failed to put player on block',
+      });
+    }
+  }
+
+  /**
+   * Open bidding on a player and start the lot timer. The player must be
+   * populated with its user's name and avatar.
+   */
+  public async putOnBlock(auction: IAuction, player: IPlayerRegistration): Promise<void> {
+    const playerId = player._id.toString();
 
-      const auctionId = auction._id.toString();
+    // A manual nomination replaces the one auto-run had lined up
+    this.cancelNextLot(auction._id.toString());
+
+    // Bids left standing by an undone result do not carry into the new lot
+    await Bid.updateMany(
+      { player: player._id, status: BidStatus.ACTIVE },
+      { status: BidStatus.EXPIRED }
+    );
 
-      // Start timer
-      this.timerManager.startTimer(
+    // Update player status
+    player.status = PlayerAuctionStatus.IN_AUCTION;
+    player.currentBid = undefined;
+    player.currentBidTeam = undefined;
+    await player.save();
+
+    // Update auction's current player
+    const setChanged =
+      (player.playerSet?.toString() ?? null) !== (auction.currentSet?.toString() ?? null);
+    auction.currentPlayerOnBlock = player._id;
+    auction.currentSet = player.playerSet;
+    auction.lotExtensionSeconds = 0;
+    auction.lotPasses = [];
+    await auction.save();
+
+    const auctionId = auction._id.toString();
+
+    if (setChanged) {
+      const playersRemaining = await PlayerRegistration.countDocuments({
+        auction: auctionId,
+        status: PlayerAuctionStatus.PENDING,
+        playerSet: player.playerSet ?? { $exists: false },
+      });
+      const payload: ISetChangedPayload = {
         auctionId,
-        playerId,
-        auction.bidTimerSeconds,
-        () => this.handleTimerExpired(auctionId, playerId)
-      );
+        setId: player.playerSet?.toString() ?? null,
+        setName: playerSetService.getSetName(auction, player),
+        playersRemaining,
+      };
+      await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.SET_CHANGED, payload);
+    }
 
-      // Broadcast player on block
-      this.io.to(`auction:${auctionId}`).emit(SOCKET_EVENTS.PLAYER_ON_BLOCK, {
-        player: {
-          id: player._id,
-          name: (player.user as any).name,
-          avatar: (player.user as any).avatar,
-          role: player.playerRole,
-          basePrice: player.basePrice,
-          profile: player.profile,
-        },
-        timeRemaining: auction.bidTimerSeconds,
+    // Start timer
+    const bidTimerSeconds = auctionService.getBidTimerSeconds(auction);
+    await this.timerManager.startTimer(
+      auctionId,
+      playerId,
+      bidTimerSeconds,
+      () => this.handleTimerExpired(auctionId, playerId),
+      this.getLotTimerOptions(auction)
+    );
+
+    // Broadcast player on block
+    await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.PLAYER_ON_BLOCK, {
+      player: {
+        id: player._id.toString(),
+        name: (player.user as any).name,
+        avatar: (player.user as any).avatar,
+        role: player.playerRole,
+        basePrice: player.basePrice,
+        profile: player.profile,
+      },
+      timeRemaining: bidTimerSeconds,
+    });
+
+    console.log(`Player on block: ${(player.user as any).name}`);
+  }
+
+  /**
+   * A team is out of the current lot. Once every team but the highest bidder
+   * has passed, the lot closes without waiting for the timer.
+   */
+  private async handlePass(socket: AuthenticatedSocket, data: { playerId: string }): Promise<void> {
+    try {
+      if (socket.userRole !== UserRole.TEAM_OWNER) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.TEAM_OWNER_ONLY,
+          message: 'Only team owners can pass',
+        });
+        return;
+      }
+
+      if (!socket.teamId || !socket.auctionId) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.NOT_IN_AUCTION,
+          message: 'Not in an auction room',
+        });
+        return;
+      }
+
+      const auctionId = socket.auctionId;
+      const { playerId } = data;
+      const { player, team, teamsStillIn } = await bidService.passLot({
+        auctionId,
+        playerId,
+        teamId: socket.teamId,
       });
 
-      console.log(`Player on block: ${(player.user as any).name}`);
+      const payload: ILotPassedPayload = {
+        auctionId,
+        playerId,
+        teamId: team._id.toString(),
+        teamName: team.name,
+        teamsStillIn,
+      };
+      await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.LOT_PASSED, payload);
+
+      if (teamsStillIn === 0) {
+        console.log(`All teams passed on ${(player.user as any).name}, closing lot early`);
+        this.timerManager.stopTimer(auctionId);
+        await this.finalizePlayerBidding(auctionId, playerId);
+      }
     } catch (error) {
-      console.error('Error putting player on block:', error);
-      socket.emit(SOCKET_EVENTS.ERROR, { message: 'Failed to put player on block' });
+      if (error instanceof ApiError) {
+        socket.emit(SOCKET_EVENTS.ERROR, error.toPayload());
+        return;
+      }
+      console.error('Error passing on player:', error);
+      socket.emit(SOCKET_EVENTS.ERROR, {
+        code: ErrorCode.INTERNAL_ERROR,
+        message: 'Failed to pass',
+      });
     }
   }
 
@@ -356,134 +737,996 @@ class AuctionSocketManager {
   ): Promise<void> {
     try {
       if (socket.userRole !== UserRole.ADMIN) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Admin only action' });
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.ADMIN_ONLY,
+          message: 'Admin only action',
+        });
         return;
       }
 
-      const { playerId } = data;
+      if (!socket.auctionId) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.NOT_IN_AUCTION,
+          message: 'Not in an auction room',
+        });
+        return;
+      }
 
-      if (socket.auctionId) {
-        this.timerManager.stopTimer(socket.auctionId);
-        await this.finalizePlayerBidding(socket.auctionId, playerId);
+      // A stale request must not close the lot that replaced the one it meant
+      const { playerId } = data;
+      const auction = await Auction.findById(socket.auctionId);
+      if (!auction?.currentPlayerOnBlock || auction.currentPlayerOnBlock.toString() !== playerId) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.PLAYER_NOT_ON_BLOCK,
+          message: 'Player is not currently on the block',
+        });
+        return;
       }
+
+      this.timerManager.stopTimer(socket.auctionId);
+      await this.finalizePlayerBidding(socket.auctionId, playerId);
     } catch (error) {
       console.error('Error ending player bidding:', error);
-      socket.emit(SOCKET_EVENTS.ERROR, { message: 'Failed to end bidding' });
+      socket.emit(SOCKET_EVENTS.ERROR, {
+        code: ErrorCode.INTERNAL_ERROR,
+        message: 'Failed to end bidding',
+      });
     }
   }
 
-  private async handleTimerExpired(auctionId: string, playerId: string): Promise<void> {
-    await this.finalizePlayerBidding(auctionId, playerId);
-  }
-
-  private async finalizePlayerBidding(auctionId: string, playerId: string): Promise<void> {
+  private async handleDraftPick(
+    socket: AuthenticatedSocket,
+    data: { playerId: string }
+  ): Promise<void> {
     try {
-      const player = await PlayerRegistration.findById(playerId).populate('user', 'name');
-      if (!player) return;
-
-      // Get highest bid
-      const highestBid = await Bid.findOne({
-        player: playerId,
-        status: BidStatus.ACTIVE,
-      })
-        .sort({ amount: -1 })
-        .populate('team', 'name shortName');
-
-      if (highestBid) {
-        // Player sold
-        highestBid.status = BidStatus.WON;
-        await highestBid.save();
-
-        player.status = PlayerAuctionStatus.SOLD;
-        player.soldPrice = highestBid.amount;
-        player.soldTo = highestBid.team._id;
-        await player.save();
-
-        // Update team
-        const team = await Team.findById(highestBid.team._id);
-        if (team) {
-          team.remainingBudget -= highestBid.amount;
-          team.acquiredPlayers.push({
-            player: player._id,
-            soldPrice: highestBid.amount,
-            acquiredAt: new Date(),
-          });
-          await team.save();
-
-          // Broadcast team update
-          this.io.to(`auction:${auctionId}`).emit(SOCKET_EVENTS.TEAM_UPDATE, {
-            teamId: team._id,
-            remainingBudget: team.remainingBudget,
-            playerCount: team.acquiredPlayers.length,
-          });
-        }
-
-        // Broadcast player sold
-        this.io.to(`auction:${auctionId}`).emit(SOCKET_EVENTS.PLAYER_SOLD, {
-          auctionId,
-          playerId,
-          playerName: (player.user as any).name,
-          teamId: (highestBid.team as any)._id,
-          teamName: (highestBid.team as any).name,
-          soldPrice: highestBid.amount,
+      if (socket.userRole !== UserRole.TEAM_OWNER) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.TEAM_OWNER_ONLY,
+          message: 'Only team owners can make picks',
         });
+        return;
+      }
 
-        console.log(`Player SOLD: ${(player.user as any).name} to ${(highestBid.team as any).name} for ₹${highestBid.amount}`);
-      } else {
-        // Player unsold
-        player.status = PlayerAuctionStatus.UNSOLD;
-        await player.save();
-
-        this.io.to(`auction:${auctionId}`).emit(SOCKET_EVENTS.PLAYER_UNSOLD, {
-          auctionId,
-          playerId,
-          playerName: (player.user as any).name,
+      if (!socket.teamId || !socket.auctionId) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.NOT_IN_AUCTION,
+          message: 'Not in an auction room',
         });
-
-        console.log(`Player UNSOLD: ${(player.user as any).name}`);
+        return;
       }
 
-      // Clear current player from auction
-      await Auction.findByIdAndUpdate(auctionId, {
-        currentPlayerOnBlock: null,
-      });
+      await this.makeDraftPick(
+        { auctionId: socket.auctionId, teamId: socket.teamId, playerId: data.playerId },
+        false
+      );
     } catch (error) {
-      console.error('Error finalizing player bidding:', error);
+      if (error instanceof ApiError) {
+        socket.emit(SOCKET_EVENTS.ERROR, error.toPayload());
+        return;
+      }
+      console.error('Error making draft pick:', error);
+      socket.emit(SOCKET_EVENTS.ERROR, {
+        code: ErrorCode.INTERNAL_ERROR,
+        message: 'Failed to make pick',
+      });
     }
   }
 
-  private async getAuctionState(auctionId: string): Promise<any> {
-    const auction = await Auction.findById(auctionId).populate('createdBy', 'name');
-    if (!auction) return null;
+  /**
+   * Record a pick, announce it and put the next team on the clock
+   */
+  private async makeDraftPick(input: IMakePickInput, autoPicked: boolean): Promise<void> {
+    const { auctionId } = input;
+    const { auction, team, player, pickNumber, round } = await draftService.makePick(input);
+
+    this.timerManager.stopTimer(auctionId);
+    await this.emitTeamUpdate(auction, team);
+
+    const payload: IDraftPickPayload = {
+      auctionId,
+      pickNumber,
+      round,
+      teamId: team._id.toString(),
+      teamName: team.name,
+      playerId: player._id.toString(),
+      playerName: (player.user as any).name,
+      autoPicked,
+    };
+    await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.DRAFT_PICK_MADE, payload);
 
-    const teams = await Team.find({ auction: auctionId, isActive: true }).select(
-      'name shortName remainingBudget acquiredPlayers'
+    console.log(
+      `Pick ${pickNumber}${autoPicked ? ' (auto)' : ''}: ${team.name} - ${(player.user as any).name}`
     );
+    await this.startNextPick(auctionId);
+  }
 
-    let currentPlayer = null;
-    if (auction.currentPlayerOnBlock) {
-      const player = await PlayerRegistration.findById(auction.currentPlayerOnBlock).populate(
-        'user',
-        'name avatar'
+  /**
+   * Put the next team on the pick clock, ending the draft once no team can pick.
+   * The pick timer is keyed by the team on the clock in place of a player.
+   */
+  private async startNextPick(auctionId: string, timeSeconds?: number): Promise<void> {
+    const auction = await Auction.findById(auctionId);
+    if (!auction || auction.status !== AuctionStatus.LIVE) return;
+
+    const slot = await draftService.getTeamOnClock(auction);
+    if (!slot) {
+      console.log(`Draft complete: ${auction.name}`);
+      await this.endAuction(auctionId, auction.createdBy.toString());
+      return;
+    }
+
+    const teamId = slot.team._id.toString();
+    const timeRemaining = timeSeconds ?? auctionService.getBidTimerSeconds(auction);
+    await this.timerManager.startTimer(auctionId, teamId, timeRemaining, () =>
+      this.handlePickExpired(auctionId, slot.pick)
+    );
+
+    const payload: IDraftOnClockPayload = {
+      auctionId,
+      pickNumber: slot.pick + 1,
+      round: slot.round,
+      teamId,
+      teamName: slot.team.name,
+      timeRemaining,
+    };
+    await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.DRAFT_ON_CLOCK, payload);
+  }
+
+  /**
+   * The team on the clock ran out of time: pick from its wishlist or the best
+   * available player, or pass if nobody it may take is left
+   */
+  private async handlePickExpired(auctionId: string, pick: number): Promise<void> {
+    try {
+      const auction = await Auction.findById(auctionId);
+      // Paused, or the pick was made as the timer ran out
+      if (!auction || auction.status !== AuctionStatus.LIVE || auction.currentPick > pick) return;
+
+      const slot = await draftService.getTeamOnClock(auction);
+      const player = slot ? await draftService.getAutoPick(auction, slot.team) : null;
+
+      if (slot && player) {
+        await this.makeDraftPick(
+          {
+            auctionId,
+            teamId: slot.team._id.toString(),
+            playerId: player._id.toString(),
+          },
+          true
+        );
+        return;
+      }
+
+      if (slot) {
+        await draftService.skipPick(auctionId, slot.pick);
+      }
+      await this.startNextPick(auctionId);
+    } catch (error) {
+      console.error('Error auto-picking:', error);
+    }
+  }
+
+  private async handleRightToMatchResponse(
+    socket: AuthenticatedSocket,
+    data: { playerId: string; accept: boolean }
+  ): Promise<void> {
+    try {
+      if (socket.userRole !== UserRole.TEAM_OWNER) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.TEAM_OWNER_ONLY,
+          message: 'Only team owners can use Right-to-Match',
+        });
+        return;
+      }
+
+      if (!socket.teamId || !socket.auctionId) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.NOT_IN_AUCTION,
+          message: 'Not in an auction room',
+        });
+        return;
+      }
+
+      const auction = await Auction.findById(socket.auctionId);
+      const pending = auction?.pendingRightToMatch;
+      if (!auction || !pending || pending.player.toString() !== data.playerId) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.RTM_NOT_OPEN,
+          message: 'No Right-to-Match offer is open for this player',
+        });
+        return;
+      }
+
+      if (pending.team.toString() !== socket.teamId) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.FORBIDDEN,
+          message: 'This Right-to-Match offer is not for your team',
+        });
+        return;
+      }
+
+      if (auction.status !== AuctionStatus.LIVE) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.AUCTION_NOT_LIVE,
+          message: 'Auction is not live',
+        });
+        return;
+      }
+
+      const player = await PlayerRegistration.findById(data.playerId).populate('user', 'name');
+      if (!player) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.NOT_FOUND,
+          message: 'Player not found',
+        });
+        return;
+      }
+
+      this.timerManager.stopTimer(socket.auctionId);
+      await this.resolveRightToMatch(auction, player, !!data.accept, socket.userId);
+    } catch (error) {
+      console.error('Error responding to Right-to-Match:', error);
+      socket.emit(SOCKET_EVENTS.ERROR, {
+        code: ErrorCode.INTERNAL_ERROR,
+        message: 'Failed to respond to Right-to-Match',
+      });
+    }
+  }
+
+  private async handleStartAuction(socket: AuthenticatedSocket): Promise<void> {
+    try {
+      if (socket.userRole !== UserRole.ADMIN) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.ADMIN_ONLY,
+          message: 'Admin only action',
+        });
+        return;
+      }
+
+      if (!socket.auctionId) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.NOT_IN_AUCTION,
+          message: 'Not in an auction room',
+        });
+        return;
+      }
+
+      await this.startAuction(socket.auctionId, socket.userId!);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        socket.emit(SOCKET_EVENTS.ERROR, error.toPayload());
+        return;
+      }
+      console.error('Error starting auction:', error);
+      socket.emit(SOCKET_EVENTS.ERROR, {
+        code: ErrorCode.INTERNAL_ERROR,
+        message: 'Failed to start auction',
+      });
+    }
+  }
+
+  private async handlePauseAuction(socket: AuthenticatedSocket): Promise<void> {
+    try {
+      if (socket.userRole !== UserRole.ADMIN) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.ADMIN_ONLY,
+          message: 'Admin only action',
+        });
+        return;
+      }
+
+      if (!socket.auctionId) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.NOT_IN_AUCTION,
+          message: 'Not in an auction room',
+        });
+        return;
+      }
+
+      await this.pauseAuction(socket.auctionId, socket.userId!);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        socket.emit(SOCKET_EVENTS.ERROR, error.toPayload());
+        return;
+      }
+      console.error('Error pausing auction:', error);
+      socket.emit(SOCKET_EVENTS.ERROR, {
+        code: ErrorCode.INTERNAL_ERROR,
+        message: 'Failed to pause auction',
+      });
+    }
+  }
+
+  private async handleWithdrawPlayer(socket: AuthenticatedSocket): Promise<void> {
+    try {
+      if (socket.userRole !== UserRole.ADMIN) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.ADMIN_ONLY,
+          message: 'Admin only action',
+        });
+        return;
+      }
+
+      if (!socket.auctionId) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.NOT_IN_AUCTION,
+          message: 'Not in an auction room',
+        });
+        return;
+      }
+
+      await this.withdrawPlayer(socket.auctionId, socket.userId!);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        socket.emit(SOCKET_EVENTS.ERROR, error.toPayload());
+        return;
+      }
+      console.error('Error withdrawing player:', error);
+      socket.emit(SOCKET_EVENTS.ERROR, {
+        code: ErrorCode.INTERNAL_ERROR,
+        message: 'Failed to withdraw player',
+      });
+    }
+  }
+
+  private async handleSetAutoRun(
+    socket: AuthenticatedSocket,
+    data: { enabled: boolean; gapSeconds?: number }
+  ): Promise<void> {
+    try {
+      if (socket.userRole !== UserRole.ADMIN) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.ADMIN_ONLY,
+          message: 'Admin only action',
+        });
+        return;
+      }
+
+      if (!socket.auctionId) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.NOT_IN_AUCTION,
+          message: 'Not in an auction room',
+        });
+        return;
+      }
+
+      const auctionId = socket.auctionId;
+      const auction = await auctionService.setAutoRun(
+        auctionId,
+        socket.userId!,
+        !!data.enabled,
+        data.gapSeconds
+      );
+
+      if (auction.autoRun) {
+        await this.scheduleNextLot(auctionId);
+      } else {
+        this.cancelNextLot(auctionId);
+      }
+
+      const payload: IAutoRunPayload = {
+        auctionId,
+        enabled: auction.autoRun,
+        gapSeconds: auction.autoRunGapSeconds,
+      };
+      await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.AUTO_RUN_UPDATE, payload);
+
+      console.log(`Auto-run ${auction.autoRun ? 'enabled' : 'disabled'}: ${auction.name}`);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        socket.emit(SOCKET_EVENTS.ERROR, error.toPayload());
+        return;
+      }
+      console.error('Error setting auto-run:', error);
+      socket.emit(SOCKET_EVENTS.ERROR, {
+        code: ErrorCode.INTERNAL_ERROR,
+        message: 'Failed to change auto-run mode',
+      });
+    }
+  }
+
+  /**
+   * Pass over the player on the block, leaving them unsold, or cut short the
+   * wait for the next auto-run nomination
+   */
+  private async handleSkipPlayer(socket: AuthenticatedSocket): Promise<void> {
+    try {
+      if (socket.userRole !== UserRole.ADMIN) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.ADMIN_ONLY,
+          message: 'Admin only action',
+        });
+        return;
+      }
+
+      if (!socket.auctionId) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.NOT_IN_AUCTION,
+          message: 'Not in an auction room',
+        });
+        return;
+      }
+
+      const auctionId = socket.auctionId;
+      const auction = await Auction.findById(auctionId);
+      if (!auction || auction.status !== AuctionStatus.LIVE) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.AUCTION_NOT_LIVE,
+          message: 'Auction is not live',
+        });
+        return;
+      }
+
+      if (!auction.currentPlayerOnBlock) {
+        if (!auction.autoRun) {
+          socket.emit(SOCKET_EVENTS.ERROR, {
+            code: ErrorCode.PLAYER_NOT_ON_BLOCK,
+            message: 'No player is on the block',
+          });
+          return;
+        }
+        this.cancelNextLot(auctionId);
+        await this.runNextLot(auctionId);
+        return;
+      }
+
+      if (auction.pendingRightToMatch) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          code: ErrorCode.LOT_CLOSED,
+          message: 'Wait for the Right-to-Match offer to close',
+        });
+        return;
+      }
+
+      const player = await PlayerRegistration.findById(auction.currentPlayerOnBlock).populate(
+        'user',
+        'name'
+      );
+      if (!player || player.status !== PlayerAuctionStatus.IN_AUCTION) {
+        await this.clearLot(auctionId);
+        return;
+      }
+
+      this.timerManager.stopTimer(auctionId);
+
+      await Bid.updateMany(
+        { player: player._id, status: BidStatus.ACTIVE },
+        { status: BidStatus.EXPIRED }
+      );
+
+      player.status = PlayerAuctionStatus.UNSOLD;
+      player.resultAt = new Date();
+      await player.save();
+
+      await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.PLAYER_UNSOLD, {
+        auctionId,
+        playerId: player._id.toString(),
+        playerName: (player.user as any).name,
+        reason: 'Skipped by the auctioneer',
+      });
+
+      console.log(`Player skipped: ${(player.user as any).name}`);
+
+      await this.clearLot(auctionId);
+    } catch (error) {
+      console.error('Error skipping player:', error);
+      socket.emit(SOCKET_EVENTS.ERROR, {
+        code: ErrorCode.INTERNAL_ERROR,
+        message: 'Failed to skip player',
+      });
+    }
+  }
+
+  /**
+   * Seconds left on the lot from its stored deadline, which is accurate on
+   * every instance, not just the one running the timer
+   */
+  private getDeadlineRemaining(auction: IAuction): number {
+    if (!auction.biddingEndsAt) return 0;
+    return Math.max(0, Math.ceil((auction.biddingEndsAt.getTime() - Date.now()) / 1000));
+  }
+
+  /**
+   * Timer settings for a lot: the soft-close extension it has used and when
+   * it is called "going once" and "going twice". A Right-to-Match window is
+   * a plain countdown.
+   */
+  private getLotTimerOptions(auction: IAuction): ITimerOptions {
+    if (auction.pendingRightToMatch) return {};
+
+    return {
+      extensionSeconds: auction.lotExtensionSeconds,
+      callPhases: {
+        goingOnceSeconds: auction.goingOnceSeconds,
+        goingTwiceSeconds: auction.goingTwiceSeconds,
+      },
+    };
+  }
+
+  private async handleTimerExpired(auctionId: string, playerId: string): Promise<void> {
+    // A pause can land between the last tick and expiry
+    const auction = await Auction.findById(auctionId);
+    if (!auction || auction.status !== AuctionStatus.LIVE) return;
+
+    await this.finalizePlayerBidding(auctionId, playerId);
+  }
+
+  private async finalizePlayerBidding(auctionId: string, playerId: string): Promise<void> {
+    try {
+      const player = await PlayerRegistration.findById(playerId).populate('user', 'name');
+      if (!player) return;
+
+      // Already finalised (e.g. before a restart or by an admin as the timer expired)
+      if (player.status !== PlayerAuctionStatus.IN_AUCTION) {
+        await this.clearLot(auctionId);
+        return;
+      }
+
+      const auction = await Auction.findById(auctionId);
+      if (!auction) return;
+
+      // The Right-to-Match window ran out: the original winner keeps the player
+      if (auction.pendingRightToMatch) {
+        await this.resolveRightToMatch(auction, player, false);
+        return;
+      }
+
+      const highestBid =
+        auction.format === AuctionFormat.SEALED
+          ? await this.revealSealedBids(auction, player)
+          : await bidService.getWinningBid(player);
+
+      // Squad rules are checked again at the hammer; an ineligible winner forfeits the lot
+      const team = highestBid ? await Team.findById(highestBid.team) : null;
+      const squadViolation =
+        highestBid && team ? await squadService.getSquadViolation(auction, team, player) : null;
+
+      if (highestBid && team && !squadViolation) {
+        // Give the player's previous team the chance to match before committing the sale
+        const matchingTeam = await rightToMatchService.getMatchingTeam(
+          auction,
+          player,
+          team._id.toString(),
+          highestBid.amount
+        );
+        if (matchingTeam) {
+          await this.offerRightToMatch(auction, player, highestBid, team, matchingTeam);
+          return;
+        }
+
+        // Another close of the lot got there first and clears it
+        if (!(await this.completeSale(auction, player, highestBid, team))) return;
+      } else {
+        if (!(await this.markUnsold(auction, player, squadViolation ?? undefined))) return;
+
+        if (highestBid && squadViolation) {
+          highestBid.status = BidStatus.EXPIRED;
+          await highestBid.save();
+          console.log(`Winning bid voided for ${team?.name}: ${squadViolation}`);
+        }
+      }
+
+      await this.clearLot(auctionId);
+    } catch (error) {
+      console.error('Error finalizing player bidding:', error);
+    }
+  }
+
+  /**
+   * Broadcast every sealed bid on a lot as a ranked list and pick the winner:
+   * the highest bid whose team can still afford the player and fit them into
+   * its squad. Ineligible bids ranked above it are voided and the rest marked
+   * outbid, so the normal hammer logic only sees the winner.
+   */
+  private async revealSealedBids(
+    auction: IAuction,
+    player: IPlayerRegistration
+  ): Promise<IBid | null> {
+    const auctionId = auction._id.toString();
+
+    const bids = await Bid.find({ player: player._id, status: BidStatus.ACTIVE })
+      .sort({ amount: -1, timestamp: 1 })
+      .populate('team', 'name');
+
+    const payload: ISealedBidsRevealedPayload = {
+      auctionId,
+      playerId: player._id.toString(),
+      playerName: (player.user as any).name,
+      bids: bids.map((bid, index) => ({
+        rank: index + 1,
+        teamId: (bid.team as any)._id.toString(),
+        teamName: (bid.team as any).name,
+        amount: bid.amount,
+        submittedAt: bid.timestamp.toISOString(),
+      })),
+    };
+    await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.SEALED_BIDS_REVEALED, payload);
+
+    let winningBid: IBid | null = null;
+    for (const bid of bids) {
+      const team = await Team.findById((bid.team as any)._id);
+      const violation = !team
+        ? 'Team no longer in the auction'
+        : bid.amount > bidService.getMaxBid(auction, team)
+          ? 'Bid exceeds the budget left for the squad'
+          : await squadService.getSquadViolation(auction, team, player);
+
+      if (!violation) {
+        winningBid = bid.depopulate('team');
+        break;
+      }
+
+      bid.status = BidStatus.EXPIRED;
+      await bid.save();
+      console.log(`Sealed bid voided for ${(bid.team as any).name}: ${violation}`);
+    }
+
+    await Bid.updateMany(
+      {
+        player: player._id,
+        status: BidStatus.ACTIVE,
+        ...(winningBid && { _id: { $ne: winningBid._id } }),
+      },
+      { status: BidStatus.OUTBID }
+    );
+
+    return winningBid;
+  }
+
+  /**
+   * Commit a sale: claim the lot, mark the bid won and add the player to the
+   * team's squad. The timer, the auctioneer and the last pass can all close a
+   * lot at once; only the first to claim it sells, and the others get false
+   * back. A team that can no longer cover the price forfeits the lot.
+   */
+  private async completeSale(
+    auction: IAuction,
+    player: IPlayerRegistration,
+    bid: IBid,
+    team: ITeam,
+    source: AcquisitionSource = AcquisitionSource.AUCTION
+  ): Promise<boolean> {
+    const auctionId = auction._id.toString();
+
+    const claimed = await PlayerRegistration.findOneAndUpdate(
+      { _id: player._id, status: PlayerAuctionStatus.IN_AUCTION },
+      {
+        status: PlayerAuctionStatus.SOLD,
+        soldPrice: bid.amount,
+        soldTo: team._id,
+        soldInRound: auction.currentRound,
+        resultAt: new Date(),
+      }
+    );
+    if (!claimed) return false;
+
+    const buyer = await Team.findOneAndUpdate(
+      { _id: team._id, remainingBudget: { $gte: bid.amount } },
+      {
+        $inc: { remainingBudget: -bid.amount },
+        $push: {
+          acquiredPlayers: {
+            player: player._id,
+            soldPrice: bid.amount,
+            acquiredAt: new Date(),
+            source,
+          },
+        },
+      },
+      { new: true }
+    );
+
+    if (!buyer) {
+      bid.status = BidStatus.EXPIRED;
+      await bid.save();
+      console.log(`Winning bid voided for ${team.name}: budget no longer covers it`);
+      return this.markUnsold(
+        auction,
+        player,
+        `${team.name} can no longer afford this player`,
+        PlayerAuctionStatus.SOLD
+      );
+    }
+
+    bid.status = BidStatus.WON;
+    await bid.save();
+
+    await this.emitTeamUpdate(auction, buyer);
+    this.timerManager.emitPhase(auctionId, player._id.toString(), LotPhase.SOLD);
+
+    // Broadcast player sold
+    await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.PLAYER_SOLD, {
+      auctionId,
+      playerId: player._id.toString(),
+      playerName: (player.user as any).name,
+      teamId: buyer._id.toString(),
+      teamName: buyer.name,
+      soldPrice: bid.amount,
+      round: auction.currentRound,
+      viaRightToMatch: source === AcquisitionSource.RIGHT_TO_MATCH,
+    });
+
+    console.log(`Player SOLD: ${(player.user as any).name} to ${buyer.name} for ₹${bid.amount}`);
+    return true;
+  }
+
+  /**
+   * Close a lot without a sale, claiming it from the status it is expected to
+   * be in. Returns false if another close of the lot got there first.
+   */
+  private async markUnsold(
+    auction: IAuction,
+    player: IPlayerRegistration,
+    reason?: string,
+    claimFrom: PlayerAuctionStatus = PlayerAuctionStatus.IN_AUCTION
+  ): Promise<boolean> {
+    const auctionId = auction._id.toString();
+
+    const claimed = await PlayerRegistration.findOneAndUpdate(
+      { _id: player._id, status: claimFrom },
+      {
+        status: PlayerAuctionStatus.UNSOLD,
+        resultAt: new Date(),
+        $unset: { soldPrice: 1, soldTo: 1, soldInRound: 1 },
+      }
+    );
+    if (!claimed) return false;
+
+    await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.PLAYER_UNSOLD, {
+      auctionId,
+      playerId: player._id.toString(),
+      playerName: (player.user as any).name,
+      ...(reason && { reason }),
+    });
+
+    console.log(`Player UNSOLD: ${(player.user as any).name}`);
+    return true;
+  }
+
+  /**
+   * Broadcast a team's budget and squad size after it changed
+   */
+  private async emitTeamUpdate(auction: IAuction, team: ITeam): Promise<void> {
+    await this.eventLog.broadcast(auction._id.toString(), SOCKET_EVENTS.TEAM_UPDATE, {
+      teamId: team._id.toString(),
+      remainingBudget: team.remainingBudget,
+      maxBid: bidService.getMaxBid(auction, team),
+      rtmCardsRemaining: rightToMatchService.getCardsRemaining(auction, team),
+      playerCount: team.acquiredPlayers.length,
+    });
+  }
+
+  /**
+   * Hold the sale and give the player's previous team a timed chance to match
+   */
+  private async offerRightToMatch(
+    auction: IAuction,
+    player: IPlayerRegistration,
+    bid: IBid,
+    winningTeam: ITeam,
+    matchingTeam: ITeam
+  ): Promise<void> {
+    const auctionId = auction._id.toString();
+    const playerId = player._id.toString();
+
+    // Only one close of the lot opens the offer
+    const offered = await Auction.findOneAndUpdate(
+      { _id: auctionId, pendingRightToMatch: null },
+      { pendingRightToMatch: { player: player._id, team: matchingTeam._id, bid: bid._id } }
+    );
+    if (!offered) return;
+
+    await this.timerManager.startTimer(auctionId, playerId, auction.rtmWindowSeconds, () =>
+      this.handleTimerExpired(auctionId, playerId)
+    );
+
+    const payload: IRightToMatchOfferPayload = {
+      auctionId,
+      playerId,
+      playerName: (player.user as any).name,
+      teamId: matchingTeam._id.toString(),
+      teamName: matchingTeam.name,
+      winningTeamId: winningTeam._id.toString(),
+      winningTeamName: winningTeam.name,
+      amount: bid.amount,
+      timeRemaining: auction.rtmWindowSeconds,
+    };
+    await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.RTM_OFFER, payload);
+
+    console.log(`Right-to-Match offered to ${matchingTeam.name} for ${(player.user as any).name}`);
+  }
+
+  /**
+   * Close an open Right-to-Match offer, selling to the matching team if it
+   * matched or to the original winner otherwise
+   */
+  private async resolveRightToMatch(
+    auction: IAuction,
+    player: IPlayerRegistration,
+    matched: boolean,
+    bidderId?: string
+  ): Promise<void> {
+    const auctionId = auction._id.toString();
+    const pending = auction.pendingRightToMatch;
+    if (!pending) return;
+
+    // Claim the offer so a response racing the timer is only applied once
+    const claimed = await Auction.findOneAndUpdate(
+      { _id: auction._id, 'pendingRightToMatch.bid': pending.bid },
+      { $unset: { pendingRightToMatch: 1 } }
+    );
+    if (!claimed) return;
+
+    const winningBid = await Bid.findById(pending.bid);
+    if (!winningBid) return;
+
+    // A matching team that can no longer afford the price loses the match and
+    // the winning bid stands
+    const matchingTeam = matched ? await Team.findById(pending.team) : null;
+    const canMatch =
+      !!matchingTeam && winningBid.amount <= bidService.getMaxBid(auction, matchingTeam);
+    if (matchingTeam && !canMatch) {
+      console.log(`Right-to-Match lapsed for ${matchingTeam.name}: budget no longer covers it`);
+    }
+
+    if (matchingTeam && canMatch) {
+      winningBid.status = BidStatus.OUTBID;
+      await winningBid.save();
+
+      const matchingBid = new Bid({
+        auction: auctionId,
+        player: player._id,
+        team: matchingTeam._id,
+        bidder: bidderId,
+        amount: winningBid.amount,
+        status: BidStatus.ACTIVE,
+        isRightToMatch: true,
+        timestamp: new Date(),
+      });
+      await matchingBid.save();
+
+      const sold = await this.completeSale(
+        auction,
+        player,
+        matchingBid,
+        matchingTeam,
+        AcquisitionSource.RIGHT_TO_MATCH
+      );
+      if (!sold) return;
+    } else {
+      const winningTeam = await Team.findById(winningBid.team);
+      if (!winningTeam) return;
+
+      if (!(await this.completeSale(auction, player, winningBid, winningTeam))) return;
+    }
+
+    await this.clearLot(auctionId);
+  }
+
+  /**
+   * Clear the current player from the auction and, in auto-run mode, line up
+   * the next one
+   */
+  private async clearLot(auctionId: string): Promise<void> {
+    await Auction.findByIdAndUpdate(auctionId, {
+      currentPlayerOnBlock: null,
+      biddingEndsAt: null,
+    });
+
+    await this.scheduleNextLot(auctionId);
+  }
+
+  /**
+   * In auto-run mode, put the next player on the block once the gap has passed
+   */
+  private async scheduleNextLot(auctionId: string): Promise<void> {
+    this.cancelNextLot(auctionId);
+
+    const auction = await Auction.findById(auctionId);
+    if (
+      !auction ||
+      !auction.autoRun ||
+      auction.format === AuctionFormat.DRAFT ||
+      auction.status !== AuctionStatus.LIVE ||
+      auction.currentPlayerOnBlock
+    ) {
+      return;
+    }
+
+    // The instance that owns the auction lines the next lot up
+    if (!(await this.timerManager.claimAuction(auctionId))) {
+      this.cluster.notifyPeers(CLUSTER_EVENTS.RESUME_AUCTION, auctionId);
+      return;
+    }
+
+    this.nextLotTimers.set(
+      auctionId,
+      setTimeout(() => {
+        this.nextLotTimers.delete(auctionId);
+        this.runNextLot(auctionId);
+      }, auction.autoRunGapSeconds * 1000)
+    );
+
+    const payload: IAutoRunPayload = {
+      auctionId,
+      enabled: true,
+      gapSeconds: auction.autoRunGapSeconds,
+      nextLotIn: auction.autoRunGapSeconds,
+    };
+    await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.AUTO_RUN_UPDATE, payload);
+  }
+
+  private cancelNextLot(auctionId: string): void {
+    this.clearNextLot(auctionId);
+    this.cluster.notifyPeers(CLUSTER_EVENTS.CANCEL_NEXT_LOT, auctionId);
+  }
+
+  private clearNextLot(auctionId: string): void {
+    const timeout = this.nextLotTimers.get(auctionId);
+    if (timeout) {
+      clearTimeout(timeout);
+      this.nextLotTimers.delete(auctionId);
+    }
+  }
+
+  /**
+   * Nominate the next player in the queue, ending the auction once none remain
+   */
+  private async runNextLot(auctionId: string): Promise<void> {
+    try {
+      const auction = await Auction.findById(auctionId);
+      if (
+        !auction ||
+        !auction.autoRun ||
+        auction.status !== AuctionStatus.LIVE ||
+        auction.currentPlayerOnBlock
+      ) {
+        return;
+      }
+
+      const player = await playerSetService.getNextPlayer(auction);
+      if (!player) {
+        console.log(`Auto-run finished the player pool: ${auction.name}`);
+        await this.endAuction(auctionId, auction.createdBy.toString());
+        return;
+      }
+
+      await this.putOnBlock(auction, player);
+    } catch (error) {
+      console.error('Error running next lot:', error);
+    }
+  }
+
+  private async getAuctionState(auctionId: string): Promise<IAuctionStatePayload | null> {
+    const auction = await Auction.findById(auctionId).populate('createdBy', 'name');
+    if (!auction) return null;
+
+    const teams = await Team.find({ auction: auctionId, isActive: true }).select(
+      'name shortName remainingBudget acquiredPlayers'
+    );
+
+    let currentPlayer: IAuctionStatePayload['currentPlayer'] = null;
+    if (auction.currentPlayerOnBlock) {
+      const player = await PlayerRegistration.findById(auction.currentPlayerOnBlock).populate(
+        'user',
+        'name avatar'
       );
 
       if (player) {
-        const currentBid = await Bid.findOne({
-          player: player._id,
-          status: BidStatus.ACTIVE,
-        })
-          .sort({ amount: -1 })
-          .populate('team', 'name shortName');
+        const currentBid = bidService.getVisibleBid(auction, player);
 
         currentPlayer = {
-          id: player._id,
+          id: player._id.toString(),
           name: (player.user as any).name,
           avatar: (player.user as any).avatar,
           role: player.playerRole,
           basePrice: player.basePrice,
-          currentBid: currentBid?.amount || player.basePrice,
-          currentTeam: currentBid ? (currentBid.team as any).name : null,
-          timeRemaining: this.timerManager.getTimeRemaining(auctionId),
+          currentBid: currentBid.amount,
+          currentTeam: teams.find((t) => currentBid.team?.equals(t._id))?.name ?? null,
+          timeRemaining:
+            auction.status === AuctionStatus.PAUSED
+              ? auction.pausedTimeRemaining || 0
+              : this.getDeadlineRemaining(auction),
         };
       }
     }
@@ -506,24 +1749,318 @@ class AuctionSocketManager {
     });
 
     return {
+      seq: auction.eventSeq,
       auction: {
-        id: auction._id,
+        id: auction._id.toString(),
         name: auction.name,
         sportType: auction.sportType,
         status: auction.status,
         bidIncrementAmount: auction.bidIncrementAmount,
-        bidTimerSeconds: auction.bidTimerSeconds,
+        bidIncrementTiers: auction.bidIncrementTiers,
+        format: auction.format,
+        currentPick: auction.currentPick,
+        bidTimerSeconds: auctionService.getBidTimerSeconds(auction),
+        softClose: auction.softClose,
+        lotExtensionSeconds: auction.lotExtensionSeconds,
+        goingOnceSeconds: auction.goingOnceSeconds,
+        goingTwiceSeconds: auction.goingTwiceSeconds,
+        lotPasses: auction.lotPasses.map((teamId) => teamId.toString()),
+        currentRound: auction.currentRound,
+        currentSet: auction.currentSet?.toString() ?? null,
+        autoRun: auction.autoRun,
+        autoRunGapSeconds: auction.autoRunGapSeconds,
       },
       currentPlayer,
       teams: teams.map((t) => ({
-        id: t._id,
+        id: t._id.toString(),
         name: t.name,
         shortName: t.shortName,
         remainingBudget: t.remainingBudget,
+        maxBid: bidService.getMaxBid(auction, t),
+        rtmCardsRemaining: rightToMatchService.getCardsRemaining(auction, t),
         playerCount: t.acquiredPlayers.length,
       })),
+      rightToMatch: auction.pendingRightToMatch
+        ? {
+            playerId: auction.pendingRightToMatch.player.toString(),
+            teamId: auction.pendingRightToMatch.team.toString(),
+          }
+        : null,
       stats,
+      draft:
+        auction.format === AuctionFormat.DRAFT ? await this.getDraftBoardState(auctionId) : null,
+    };
+  }
+
+  /**
+   * Draft order, picks so far and the team on the clock, as sent to clients
+   */
+  private async getDraftBoardState(auctionId: string): Promise<IDraftBoardState> {
+    const board = await draftService.getDraftBoard(auctionId);
+
+    return {
+      orderType: board.orderType,
+      order: board.order.map((t) => ({
+        _id: t._id.toString(),
+        name: t.name,
+        shortName: t.shortName,
+      })),
+      picks: board.picks.map((p) => ({
+        pickNumber: p.draftPick!,
+        teamId: (p.soldTo as any)._id.toString(),
+        playerId: p._id.toString(),
+        playerName: (p.user as any).name,
+      })),
+      onClock: board.onClock && { ...board.onClock, teamId: board.onClock.teamId.toString() },
+    };
+  }
+
+  /**
+   * Start or resume an auction. A lot frozen by a pause continues from its
+   * remaining time.
+   */
+  public async startAuction(auctionId: string, userId: string): Promise<IAuction> {
+    const auction = await auctionService.startAuction(auctionId, userId);
+
+    let timeRemaining = 0;
+    if (auction.format === AuctionFormat.DRAFT) {
+      timeRemaining = auction.pausedTimeRemaining ?? auctionService.getBidTimerSeconds(auction);
+      await this.startNextPick(auctionId, timeRemaining);
+    } else if (auction.currentPlayerOnBlock) {
+      const playerId = auction.currentPlayerOnBlock.toString();
+      timeRemaining = auction.pausedTimeRemaining ?? auctionService.getBidTimerSeconds(auction);
+
+      await this.timerManager.startTimer(
+        auctionId,
+        playerId,
+        timeRemaining,
+        () => this.handleTimerExpired(auctionId, playerId),
+        this.getLotTimerOptions(auction)
+      );
+    } else {
+      await this.scheduleNextLot(auctionId);
+    }
+
+    const payload: IAuctionStatusPayload = {
+      auctionId,
+      status: auction.status,
+      timeRemaining,
+    };
+    await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.AUCTION_STARTED, payload);
+
+    console.log(`Auction started: ${auction.name}`);
+    return auction;
+  }
+
+  /**
+   * Pause an auction, stopping the countdown of the lot on the block
+   */
+  public async pauseAuction(auctionId: string, userId: string): Promise<IAuction> {
+    const auction = await auctionService.pauseAuction(auctionId, userId);
+
+    this.timerManager.stopTimer(auctionId);
+    this.cancelNextLot(auctionId);
+
+    const payload: IAuctionStatusPayload = {
+      auctionId,
+      status: auction.status,
+      timeRemaining: auction.pausedTimeRemaining || 0,
+    };
+    await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.AUCTION_PAUSED, payload);
+
+    console.log(`Auction paused: ${auction.name}`);
+    return auction;
+  }
+
+  /**
+   * Pull the player on the block back into the pool, voiding the lot. Auto-run
+   * waits for the auctioneer rather than nominating straight away.
+   */
+  public async withdrawPlayer(auctionId: string, userId: string): Promise<IWithdrawPlayerResult> {
+    const result = await auctionService.withdrawPlayer(auctionId, userId);
+    const { player } = result;
+
+    this.timerManager.stopTimer(auctionId);
+
+    const payload: IPlayerWithdrawnPayload = {
+      auctionId,
+      playerId: player._id.toString(),
+      playerName: (player.user as any).name,
+    };
+    await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.PLAYER_WITHDRAWN, payload);
+
+    console.log(`Player withdrawn from the block: ${(player.user as any).name}`);
+    return result;
+  }
+
+  /**
+   * End an auction, stopping any lot timer and auto-run nomination
+   */
+  public async endAuction(auctionId: string, userId: string): Promise<IAuction> {
+    const auction = await auctionService.endAuction(auctionId, userId);
+
+    this.timerManager.stopTimer(auctionId);
+    this.cancelNextLot(auctionId);
+    await this.timerManager.releaseAuction(auctionId);
+
+    await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.AUCTION_ENDED, {
+      auctionId,
+      endTime: auction.endTime?.toISOString(),
+    });
+
+    console.log(`Auction ended: ${auction.name}`);
+    return auction;
+  }
+
+  /**
+   * Rehydrate bid timers for live auctions after a restart, or after the
+   * instance that ran them went down. Only auctions this instance manages to
+   * adopt are touched.
+   */
+  public async restoreTimers(): Promise<void> {
+    const auctions = await Auction.find({
+      status: AuctionStatus.LIVE,
+      $or: [
+        { currentPlayerOnBlock: { $ne: null } },
+        { format: AuctionFormat.DRAFT },
+        { autoRun: true },
+      ],
+    });
+
+    for (const auction of auctions) {
+      if (!(await this.timerManager.adoptAuction(auction._id.toString()))) continue;
+      await this.resumeAuction(auction);
+    }
+  }
+
+  /**
+   * Run an owned auction's timers from the state stored on it: the lot or
+   * draft pick on the clock, or the next auto-run lot. Lots and picks whose
+   * deadline has passed are finalised straight away.
+   */
+  private async resumeAuction(auction: IAuction): Promise<void> {
+    const auctionId = auction._id.toString();
+
+    // Drafts carry on with the team on the clock
+    if (auction.format === AuctionFormat.DRAFT) {
+      const slot = await draftService.getTeamOnClock(auction);
+
+      if (!slot || !auction.biddingEndsAt) {
+        await this.startNextPick(auctionId);
+      } else if (auction.biddingEndsAt.getTime() <= Date.now()) {
+        await this.handlePickExpired(auctionId, slot.pick);
+      } else {
+        this.timerManager.resumeTimer(
+          auctionId,
+          slot.team._id.toString(),
+          auction.biddingEndsAt,
+          () => this.handlePickExpired(auctionId, slot.pick)
+        );
+      }
+      return;
+    }
+
+    if (auction.currentPlayerOnBlock) {
+      const playerId = auction.currentPlayerOnBlock.toString();
+
+      if (!auction.biddingEndsAt || auction.biddingEndsAt.getTime() <= Date.now()) {
+        console.log(`Finalizing lot that expired during downtime: ${auction.name}`);
+        await this.finalizePlayerBidding(auctionId, playerId);
+        return;
+      }
+
+      this.timerManager.resumeTimer(
+        auctionId,
+        playerId,
+        auction.biddingEndsAt,
+        () => this.handleTimerExpired(auctionId, playerId),
+        this.getLotTimerOptions(auction)
+      );
+      console.log(`Restored bid timer for auction: ${auction.name}`);
+      return;
+    }
+
+    // Auto-run auctions that were between lots carry on where they left off
+    if (auction.autoRun) {
+      await this.scheduleNextLot(auctionId);
+    }
+  }
+
+  /**
+   * Another instance changed the clock of an auction this instance owns
+   */
+  private async handleResumeRequest(auctionId: string): Promise<void> {
+    if (!this.timerManager.ownsAuction(auctionId)) return;
+
+    const auction = await Auction.findById(auctionId);
+    if (!auction || auction.status !== AuctionStatus.LIVE) return;
+
+    await this.resumeAuction(auction);
+  }
+
+  /**
+   * Open an accelerated round for unsold players and announce it to the room
+   */
+  public async openAcceleratedRound(input: IOpenRoundInput): Promise<IAuction> {
+    const { auction, playerIds } = await auctionService.openAcceleratedRound(input);
+    const auctionId = auction._id.toString();
+
+    const payload: IRoundStartedPayload = {
+      auctionId,
+      round: auction.currentRound,
+      playerIds,
+      bidTimerSeconds: auctionService.getBidTimerSeconds(auction),
     };
+    await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.ROUND_STARTED, payload);
+
+    console.log(`Round ${auction.currentRound} opened: ${playerIds.length} players re-queued`);
+
+    return auction;
+  }
+
+  /**
+   * Revert the most recent result and tell the room
+   */
+  public async undoLastResult(
+    auctionId: string,
+    userId: string,
+    reason: string
+  ): Promise<ICorrectionResult> {
+    const result = await correctionService.undoLastResult(auctionId, userId, reason);
+    await this.emitCorrection(result);
+    return result;
+  }
+
+  /**
+   * Move a sold player to another team and tell the room
+   */
+  public async reassignSale(input: IReassignSaleInput): Promise<ICorrectionResult> {
+    const result = await correctionService.reassignSale(input);
+    await this.emitCorrection(result);
+    return result;
+  }
+
+  private async emitCorrection(result: ICorrectionResult): Promise<void> {
+    const { correction, auction, player, teams } = result;
+    const auctionId = auction._id.toString();
+
+    for (const team of teams) {
+      await this.emitTeamUpdate(auction, team);
+    }
+
+    const payload: ISaleCorrectedPayload = {
+      auctionId,
+      playerId: player._id.toString(),
+      playerName: (player.user as any).name,
+      action: correction.action,
+      fromTeamId: correction.fromTeam?.toString(),
+      toTeamId: correction.toTeam?.toString(),
+      price: correction.newPrice,
+      reason: correction.reason,
+    };
+    await this.eventLog.broadcast(auctionId, SOCKET_EVENTS.SALE_CORRECTED, payload);
+
+    console.log(`Result corrected (${correction.action}): ${payload.playerName}`);
   }
 
   public getIO(): SocketIOServer {
@@ -0,0 +1,161 @@
+import { createAdapter } from '@socket.io/redis-adapter';
+import { createClient } from 'redis';
+import { randomUUID } from 'crypto';
+import config from '../config';
+import { IAuctionServer } from '../types';
+
+// Events instances send each other (never seen by clients)
+export const CLUSTER_EVENTS = {
+  RESET_TIMER: 'cluster:reset_timer',
+  STOP_TIMER: 'cluster:stop_timer',
+  CANCEL_NEXT_LOT: 'cluster:cancel_next_lot',
+  RESUME_AUCTION: 'cluster:resume_auction', // Owner reloads timers from the auction's state
+};
+
+/**
+ * How backend instances share Socket.IO rooms and decide which of them owns
+ * an auction's timers
+ */
+export interface ISocketCluster {
+  readonly instanceId: string;
+  readonly isDistributed: boolean;
+
+  /**
+   * Connect and install the adapter that carries room broadcasts
+   */
+  connect(): Promise<void>;
+
+  /**
+   * Take a lease if it is free, or extend it if this instance already holds it
+   */
+  acquireLease(key: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Give up a lease this instance holds
+   */
+  releaseLease(key: string): Promise<void>;
+
+  /**
+   * Send an event to every other instance
+   */
+  notifyPeers(event: string, ...args: string[]): void;
+
+  /**
+   * Handle an event sent by another instance
+   */
+  onPeerEvent(event: string, handler: (...args: string[]) => void): void;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Single instance (development and tests): Socket.IO's default in-memory
+ * adapter, and this instance owns every auction
+ */
+export class InMemoryCluster implements ISocketCluster {
+  readonly instanceId = randomUUID();
+  readonly isDistributed = false;
+
+  async connect(): Promise<void> {}
+
+  async acquireLease(): Promise<boolean> {
+    return true;
+  }
+
+  async releaseLease(): Promise<void> {}
+
+  notifyPeers(): void {}
+
+  onPeerEvent(): void {}
+
+  async close(): Promise<void> {}
+}
+
+// Extend a lease only while it still names this instance
+const RENEW_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+/**
+ * Several instances behind a load balancer: rooms are shared over Redis
+ * pub/sub and leases are Redis keys that expire unless their owner renews them
+ */
+export class RedisCluster implements ISocketCluster {
+  readonly instanceId = randomUUID();
+  readonly isDistributed = true;
+  private io: IAuctionServer;
+  private pubClient: ReturnType<typeof createClient>;
+  private subClient: ReturnType<typeof createClient>;
+  private connected = false;
+
+  constructor(io: IAuctionServer, url: string) {
+    this.io = io;
+    this.pubClient = createClient({ url });
+    this.subClient = this.pubClient.duplicate();
+
+    this.pubClient.on('error', (error) => console.error('Redis publisher error:', error));
+    this.subClient.on('error', (error) => console.error('Redis subscriber error:', error));
+  }
+
+  async connect(): Promise<void> {
+    await Promise.all([this.pubClient.connect(), this.subClient.connect()]);
+    this.io.adapter(createAdapter(this.pubClient, this.subClient));
+    this.connected = true;
+
+    console.log(`✅ Redis adapter connected (instance ${this.instanceId})`);
+  }
+
+  async acquireLease(key: string, ttlMs: number): Promise<boolean> {
+    const claimed = await this.pubClient.set(this.leaseKey(key), this.instanceId, {
+      NX: true,
+      PX: ttlMs,
+    });
+    if (claimed) return true;
+
+    const renewed = await this.pubClient.eval(RENEW_LEASE_SCRIPT, {
+      keys: [this.leaseKey(key)],
+      arguments: [this.instanceId, ttlMs.toString()],
+    });
+    return renewed === 1;
+  }
+
+  async releaseLease(key: string): Promise<void> {
+    await this.pubClient.eval(RELEASE_LEASE_SCRIPT, {
+      keys: [this.leaseKey(key)],
+      arguments: [this.instanceId],
+    });
+  }
+
+  notifyPeers(event: string, ...args: string[]): void {
+    if (!this.connected) return;
+    this.io.serverSideEmit(event, ...args);
+  }
+
+  onPeerEvent(event: string, handler: (...args: string[]) => void): void {
+    this.io.on(event, handler);
+  }
+
+  async close(): Promise<void> {
+    if (!this.connected) return;
+    await Promise.all([this.pubClient.quit(), this.subClient.quit()]);
+    this.connected = false;
+  }
+
+  private leaseKey(key: string): string {
+    return `bidzr:lease:${key}`;
+  }
+}
+
+/**
+ * Redis when REDIS_URL is set, otherwise a single in-memory instance
+ */
+export const createSocketCluster = (io: IAuctionServer): ISocketCluster =>
+  config.redis.url ? new RedisCluster(io, config.redis.url) : new InMemoryCluster();
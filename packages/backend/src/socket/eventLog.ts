@@ -0,0 +1,95 @@
+import { Auction, AuctionEvent } from '../models';
+import { IAuctionEvent, IAuctionServer, IAuctionSocket, RoomEvent, RoomEvents } from '../types';
+
+// Clients further behind than this get the full state instead of a replay
+const MAX_REPLAY_EVENTS = 200;
+
+/**
+ * Numbers every broadcast to an auction room so reconnecting clients can tell
+ * what they missed, and keeps recent events for replay. The counter lives on
+ * the auction, so numbers stay in order across backend instances.
+ */
+class AuctionEventLog {
+  private io: IAuctionServer;
+  private queues: Map<string, Promise<number>> = new Map();
+
+  constructor(io: IAuctionServer) {
+    this.io = io;
+  }
+
+  /**
+   * Broadcast an event to the auction room with the next sequence number.
+   * Broadcasts from this instance go out in the order they were made, even
+   * when callers do not wait for each other.
+   */
+  broadcast<E extends RoomEvent>(
+    auctionId: string,
+    event: E,
+    payload: RoomEvents[E]
+  ): Promise<number> {
+    const previous = this.queues.get(auctionId) ?? Promise.resolve(0);
+    const next = previous
+      .catch(() => 0)
+      .then(() => this.record(auctionId, event, payload));
+
+    this.queues.set(auctionId, next);
+    const cleanup = () => {
+      if (this.queues.get(auctionId) === next) this.queues.delete(auctionId);
+    };
+    next.then(cleanup, cleanup);
+
+    return next;
+  }
+
+  /**
+   * Events after lastSeq in order, or null when they can no longer all be
+   * replayed and the client needs the full state
+   */
+  async getEventsSince(auctionId: string, lastSeq: number): Promise<IAuctionEvent[] | null> {
+    const auction = await Auction.findById(auctionId).select('eventSeq');
+    if (!auction || lastSeq > auction.eventSeq) return null;
+    if (lastSeq === auction.eventSeq) return [];
+    if (auction.eventSeq - lastSeq > MAX_REPLAY_EVENTS) return null;
+
+    const events = await AuctionEvent.find({ auction: auctionId, seq: { $gt: lastSeq } }).sort({
+      seq: 1,
+    });
+
+    // The oldest missed events have already expired
+    if (events.length === 0 || events[0].seq !== lastSeq + 1) return null;
+
+    return events;
+  }
+
+  /**
+   * Send missed events to a single client, in order
+   */
+  replay(socket: IAuctionSocket, events: IAuctionEvent[]): void {
+    // Payloads were checked against their event when they were broadcast
+    events.forEach(({ event, payload, seq }) => socket.emit(event, { ...payload, seq } as never));
+  }
+
+  private async record<E extends RoomEvent>(
+    auctionId: string,
+    event: E,
+    payload: RoomEvents[E]
+  ): Promise<number> {
+    const auction = await Auction.findByIdAndUpdate(
+      auctionId,
+      { $inc: { eventSeq: 1 } },
+      { new: true, projection: { eventSeq: 1 } }
+    );
+    if (!auction) {
+      throw new Error(`Cannot broadcast ${event}: auction ${auctionId} not found`);
+    }
+
+    const seq = auction.eventSeq;
+    await AuctionEvent.create({ auction: auctionId, seq, event, payload });
+    // Socket.IO's typings cannot follow the payload type through a generic event
+    this.io.to(`auction:${auctionId}`).emit(event as RoomEvent, { ...payload, seq } as never);
+
+    return seq;
+  }
+}
+
+export default AuctionEventLog;
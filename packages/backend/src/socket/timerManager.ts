@@ -1,50 +1,233 @@
-import { Server as SocketIOServer } from 'socket.io';
-import { SOCKET_EVENTS } from './auctionSocket';
+import { Auction } from '../models';
+import { getBidTimerSeconds, getSoftCloseExtension } from '../services/auctionService';
+import {
+  IAuctionServer,
+  ILotPhasePayload,
+  ITimerUpdatePayload,
+  LotPhase,
+  SOCKET_EVENTS,
+} from '../types';
+import { CLUSTER_EVENTS, ISocketCluster } from './cluster';
+import AuctionEventLog from './eventLog';
+
+// An instance owns an auction while it keeps renewing the auction's lease
+export const LEASE_TTL_MS = 6000;
+const LEASE_RENEW_MS = 2000;
+
+export interface ICallPhaseThresholds {
+  goingOnceSeconds: number;
+  goingTwiceSeconds: number;
+}
+
+export interface ITimerOptions {
+  extensionSeconds?: number; // Soft-close extension the lot has already used
+  callPhases?: ICallPhaseThresholds; // Lots are called out; pick and RTM clocks are not
+}
 
 interface Timer {
   intervalId: NodeJS.Timeout;
-  timeRemaining: number;
+  endsAt: number;
   playerId: string;
+  extensionSeconds: number; // Soft-close extension used by the lot
+  callPhases?: ICallPhaseThresholds;
+  phase?: LotPhase; // Last phase announced
 }
 
 class AuctionTimerManager {
-  private io: SocketIOServer;
+  private io: IAuctionServer;
+  private cluster: ISocketCluster;
+  private eventLog: AuctionEventLog;
   private timers: Map<string, Timer> = new Map();
+  private ownedAuctions: Set<string> = new Set();
+  private leaseIntervalId?: NodeJS.Timeout;
+  private onOwnershipLost: (auctionId: string) => void;
 
-  constructor(io: SocketIOServer) {
+  constructor(
+    io: IAuctionServer,
+    cluster: ISocketCluster,
+    eventLog: AuctionEventLog,
+    onOwnershipLost: (auctionId: string) => void
+  ) {
     this.io = io;
+    this.cluster = cluster;
+    this.eventLog = eventLog;
+    this.onOwnershipLost = onOwnershipLost;
+
+    // Timer calls for auctions another instance owns are forwarded to it
+    this.cluster.onPeerEvent(CLUSTER_EVENTS.RESET_TIMER, (auctionId, playerId) => {
+      this.resetLocalTimer(auctionId, playerId).catch((error) =>
+        console.error('Forwarded timer reset failed:', error)
+      );
+    });
+    this.cluster.onPeerEvent(CLUSTER_EVENTS.STOP_TIMER, (auctionId) => this.clearTimer(auctionId));
+
+    if (this.cluster.isDistributed) {
+      this.leaseIntervalId = setInterval(() => {
+        this.renewLeases().catch((error) => console.error('Lease renewal failed:', error));
+      }, LEASE_RENEW_MS);
+    }
+  }
+
+  /**
+   * Make this instance the owner of an auction's timers if it already is or no
+   * live instance holds the lease. False when another instance owns them.
+   */
+  async claimAuction(auctionId: string): Promise<boolean> {
+    if (!(await this.cluster.acquireLease(this.leaseKey(auctionId), LEASE_TTL_MS))) return false;
+
+    this.ownedAuctions.add(auctionId);
+    return true;
   }
 
   /**
-   * Start a countdown timer for an auction
+   * Whether this instance runs the auction's timers
    */
-  startTimer(
+  ownsAuction(auctionId: string): boolean {
+    return this.ownedAuctions.has(auctionId);
+  }
+
+  /**
+   * Take over an auction no live instance owns (after a restart, or when its
+   * owner went down). False when this or another instance already owns it.
+   */
+  async adoptAuction(auctionId: string): Promise<boolean> {
+    if (this.ownedAuctions.has(auctionId)) return false;
+    if (!(await this.cluster.acquireLease(this.leaseKey(auctionId), LEASE_TTL_MS))) return false;
+
+    this.ownedAuctions.add(auctionId);
+    return true;
+  }
+
+  /**
+   * Give up an auction that no longer needs timers
+   */
+  async releaseAuction(auctionId: string): Promise<void> {
+    this.ownedAuctions.delete(auctionId);
+    await this.cluster.releaseLease(this.leaseKey(auctionId));
+  }
+
+  /**
+   * Start a countdown timer for an auction. If another instance owns the
+   * auction, it is told to pick the new deadline up from the auction instead.
+   */
+  async startTimer(
     auctionId: string,
     playerId: string,
     durationSeconds: number,
-    onExpire: () => void
-  ): void {
-    // Stop any existing timer for this auction
-    this.stopTimer(auctionId);
+    onExpire: () => void,
+    options: ITimerOptions = {}
+  ): Promise<void> {
+    const endsAt = new Date(Date.now() + durationSeconds * 1000);
+    await this.persistDeadline(auctionId, endsAt);
 
-    const timer: Timer = {
-      intervalId: setInterval(() => {
-        this.tick(auctionId, onExpire);
-      }, 1000),
-      timeRemaining: durationSeconds,
-      playerId,
-    };
+    if (!(await this.claimAuction(auctionId))) {
+      this.clearTimer(auctionId);
+      this.cluster.notifyPeers(CLUSTER_EVENTS.RESUME_AUCTION, auctionId);
+      return;
+    }
 
-    this.timers.set(auctionId, timer);
+    this.runTimer(auctionId, playerId, endsAt, onExpire, options);
+  }
 
-    // Emit initial timer state
-    this.emitTimerUpdate(auctionId, playerId, durationSeconds);
+  /**
+   * Resume a countdown towards a deadline that is already stored on the auction
+   * (used when rehydrating timers after a restart, once the auction is adopted)
+   */
+  resumeTimer(
+    auctionId: string,
+    playerId: string,
+    endsAt: Date,
+    onExpire: () => void,
+    options: ITimerOptions = {}
+  ): void {
+    this.runTimer(auctionId, playerId, endsAt, onExpire, options);
   }
 
   /**
-   * Stop the timer for an auction
+   * Stop the timer for an auction, wherever it is running
    */
   stopTimer(auctionId: string): void {
+    this.clearTimer(auctionId);
+    this.cluster.notifyPeers(CLUSTER_EVENTS.STOP_TIMER, auctionId);
+  }
+
+  /**
+   * Reset the timer (called when a bid is placed), on the instance that runs it
+   */
+  async resetTimer(auctionId: string, playerId: string): Promise<void> {
+    if (!this.hasTimer(auctionId)) {
+      this.cluster.notifyPeers(CLUSTER_EVENTS.RESET_TIMER, auctionId, playerId);
+      return;
+    }
+
+    await this.resetLocalTimer(auctionId, playerId);
+  }
+
+  /**
+   * Whether an auction's timer is running on this instance
+   */
+  hasTimer(auctionId: string): boolean {
+    return this.timers.has(auctionId);
+  }
+
+  /**
+   * Get remaining time for an auction
+   */
+  getTimeRemaining(auctionId: string): number {
+    const timer = this.timers.get(auctionId);
+    if (!timer) return 0;
+    return Math.max(0, Math.ceil((timer.endsAt - Date.now()) / 1000));
+  }
+
+  /**
+   * Emit a call phase to all clients in the auction room
+   */
+  emitPhase(auctionId: string, playerId: string, phase: LotPhase, timeRemaining = 0): void {
+    const payload: ILotPhasePayload = { auctionId, playerId, phase, timeRemaining };
+    this.eventLog
+      .broadcast(auctionId, SOCKET_EVENTS.LOT_PHASE, payload)
+      .catch((error) => console.error('Failed to announce lot phase:', error));
+  }
+
+  /**
+   * Reset a timer running on this instance. Under soft-close rules the deadline
+   * only moves for bids late in the lot, by a fixed extension, until the lot's
+   * extension cap is used up.
+   */
+  private async resetLocalTimer(auctionId: string, playerId: string): Promise<void> {
+    const timer = this.timers.get(auctionId);
+    if (!timer || timer.playerId !== playerId) return;
+
+    const auction = await Auction.findById(auctionId);
+    if (!auction) return;
+
+    if (!auction.softClose) {
+      const endsAt = new Date(Date.now() + getBidTimerSeconds(auction) * 1000);
+      timer.endsAt = endsAt.getTime();
+      await this.persistDeadline(auctionId, endsAt);
+      this.emitTimerUpdate(auctionId, playerId, this.getTimeRemaining(auctionId));
+      this.updatePhase(auctionId, timer);
+      return;
+    }
+
+    const extendedBy = getSoftCloseExtension(auction, this.getTimeRemaining(auctionId));
+    if (extendedBy === 0) return;
+
+    const endsAt = new Date(timer.endsAt + extendedBy * 1000);
+    timer.endsAt = endsAt.getTime();
+    timer.extensionSeconds = auction.lotExtensionSeconds + extendedBy;
+    await Auction.findByIdAndUpdate(auctionId, {
+      biddingEndsAt: endsAt,
+      $inc: { lotExtensionSeconds: extendedBy },
+    });
+    this.emitTimerUpdate(auctionId, playerId, this.getTimeRemaining(auctionId), extendedBy);
+    this.updatePhase(auctionId, timer);
+  }
+
+  /**
+   * Stop the timer for an auction if it is running on this instance
+   */
+  private clearTimer(auctionId: string): void {
     const timer = this.timers.get(auctionId);
     if (timer) {
       clearInterval(timer.intervalId);
@@ -53,28 +236,52 @@ class AuctionTimerManager {
   }
 
   /**
-   * Reset the timer (called when a bid is placed)
+   * Keep the leases of owned auctions alive. An auction whose lease was taken
+   * by another instance is dropped here, timers and all.
    */
-  resetTimer(auctionId: string, playerId: string): void {
-    const timer = this.timers.get(auctionId);
-    if (timer && timer.playerId === playerId) {
-      // Get auction's bid timer seconds (default to 30)
-      const Auction = require('../models').Auction;
-      Auction.findById(auctionId).then((auction: any) => {
-        if (auction) {
-          timer.timeRemaining = auction.bidTimerSeconds;
-          this.emitTimerUpdate(auctionId, playerId, timer.timeRemaining);
-        }
-      });
+  private async renewLeases(): Promise<void> {
+    for (const auctionId of this.ownedAuctions) {
+      if (await this.cluster.acquireLease(this.leaseKey(auctionId), LEASE_TTL_MS)) continue;
+
+      this.ownedAuctions.delete(auctionId);
+      this.clearTimer(auctionId);
+      this.onOwnershipLost(auctionId);
+      console.log(`Auction ${auctionId} is now owned by another instance`);
     }
   }
 
+  private leaseKey(auctionId: string): string {
+    return `auction:${auctionId}`;
+  }
+
   /**
-   * Get remaining time for an auction
+   * Start ticking towards an absolute deadline
    */
-  getTimeRemaining(auctionId: string): number {
-    const timer = this.timers.get(auctionId);
-    return timer?.timeRemaining || 0;
+  private runTimer(
+    auctionId: string,
+    playerId: string,
+    endsAt: Date,
+    onExpire: () => void,
+    options: ITimerOptions
+  ): void {
+    // Stop any existing timer for this auction
+    this.clearTimer(auctionId);
+
+    const timer: Timer = {
+      intervalId: setInterval(() => {
+        this.tick(auctionId, onExpire);
+      }, 1000),
+      endsAt: endsAt.getTime(),
+      playerId,
+      extensionSeconds: options.extensionSeconds ?? 0,
+      callPhases: options.callPhases,
+    };
+
+    this.timers.set(auctionId, timer);
+
+    // Emit initial timer state
+    this.emitTimerUpdate(auctionId, playerId, this.getTimeRemaining(auctionId));
+    this.updatePhase(auctionId, timer);
   }
 
   /**
@@ -84,33 +291,80 @@ class AuctionTimerManager {
     const timer = this.timers.get(auctionId);
     if (!timer) return;
 
-    timer.timeRemaining -= 1;
+    const timeRemaining = this.getTimeRemaining(auctionId);
 
     // Emit timer update
-    this.emitTimerUpdate(auctionId, timer.playerId, timer.timeRemaining);
+    this.emitTimerUpdate(auctionId, timer.playerId, timeRemaining);
+    this.updatePhase(auctionId, timer);
 
     // Check if timer expired
-    if (timer.timeRemaining <= 0) {
-      this.stopTimer(auctionId);
+    if (timeRemaining <= 0) {
+      this.clearTimer(auctionId);
       onExpire();
     }
   }
 
   /**
-   * Emit timer update to all clients in the auction room
+   * Announce the lot's call phase when the clock crosses a threshold, including
+   * back to open when a bid puts time back on it. The hammer itself is called
+   * by whoever completes the sale.
+   */
+  private updatePhase(auctionId: string, timer: Timer): void {
+    if (!timer.callPhases) return;
+
+    const timeRemaining = this.getTimeRemaining(auctionId);
+    if (timeRemaining <= 0) return;
+
+    const { goingOnceSeconds, goingTwiceSeconds } = timer.callPhases;
+    let phase: LotPhase = LotPhase.OPEN;
+    if (timeRemaining <= goingTwiceSeconds) {
+      phase = LotPhase.GOING_TWICE;
+    } else if (timeRemaining <= goingOnceSeconds) {
+      phase = LotPhase.GOING_ONCE;
+    }
+
+    if (phase === timer.phase) return;
+    timer.phase = phase;
+    this.emitPhase(auctionId, timer.playerId, phase, timeRemaining);
+  }
+
+  /**
+   * Store the absolute deadline on the auction so it survives a restart
    */
-  private emitTimerUpdate(auctionId: string, playerId: string, timeRemaining: number): void {
-    this.io.to(`auction:${auctionId}`).emit(SOCKET_EVENTS.TIMER_UPDATE, {
+  private async persistDeadline(auctionId: string, endsAt: Date): Promise<void> {
+    await Auction.findByIdAndUpdate(auctionId, {
+      biddingEndsAt: endsAt,
+      pausedTimeRemaining: null,
+    });
+  }
+
+  /**
+   * Emit timer update to all clients in the auction room. Ticks are not
+   * numbered or kept for replay: each one supersedes the last.
+   */
+  private emitTimerUpdate(
+    auctionId: string,
+    playerId: string,
+    timeRemaining: number,
+    extendedBy?: number
+  ): void {
+    const payload: ITimerUpdatePayload = {
       auctionId,
       playerId,
       timeRemaining,
-    });
+      extensionSeconds: this.timers.get(auctionId)?.extensionSeconds ?? 0,
+      extendedBy,
+    };
+    this.io.to(`auction:${auctionId}`).emit(SOCKET_EVENTS.TIMER_UPDATE, payload);
   }
 
   /**
    * Clean up all timers
    */
   cleanup(): void {
+    if (this.leaseIntervalId) {
+      clearInterval(this.leaseIntervalId);
+    }
     this.timers.forEach((timer, auctionId) => {
       clearInterval(timer.intervalId);
     });
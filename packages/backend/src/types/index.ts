@@ -4,6 +4,17 @@
 // ============================================
 
 import { Document, Types } from 'mongoose';
+import type { Server, Socket } from 'socket.io';
+import {
+  AuctionFormat,
+  AuctionStatus,
+  ClientToServerEvents,
+  CorrectionAction,
+  DraftOrderType,
+  IBidIncrementTier,
+  RoomEvent,
+  ServerToClientEvents,
+} from '@bidzr/shared';
 
 // ============================================
 // Enums
@@ -36,18 +47,12 @@ export enum FootballPosition {
   FORWARD = 'forward',
 }
 
-export enum AuctionStatus {
-  UPCOMING = 'upcoming',
-  LIVE = 'live',
-  PAUSED = 'paused',
-  ENDED = 'ended',
-}
-
 export enum PlayerAuctionStatus {
   PENDING = 'pending',
   IN_AUCTION = 'in_auction',
   SOLD = 'sold',
   UNSOLD = 'unsold',
+  RETAINED = 'retained',
 }
 
 export enum BidStatus {
@@ -57,6 +62,19 @@ export enum BidStatus {
   EXPIRED = 'expired',
 }
 
+export enum AcquisitionSource {
+  AUCTION = 'auction',
+  RIGHT_TO_MATCH = 'right_to_match',
+  RETAINED = 'retained',
+  DRAFT = 'draft',
+}
+
+export enum WishlistPriority {
+  HIGH = 'high',
+  MEDIUM = 'medium',
+  LOW = 'low',
+}
+
 // ============================================
 // Base Interfaces
 // ============================================
@@ -107,24 +125,78 @@ export interface ISportConfig {
   basePriceTiers: IBasePriceTier[];
 }
 
+export interface IRoleLimit {
+  role: string;
+  min?: number;
+  max?: number;
+}
+
+export interface ISquadRules {
+  roleLimits: IRoleLimit[];
+  maxOverseasPlayers?: number;
+  homeNationality?: string; // Players with a different nationality count as overseas
+}
+
+export interface ISoftCloseRules {
+  windowSeconds: number; // Bids with at most this long left extend the lot
+  extensionSeconds: number; // Added to the deadline per qualifying bid
+  maxExtensionSeconds: number; // Total extension allowed per lot
+}
+
+export interface IPendingRightToMatch {
+  player: Types.ObjectId; // PlayerRegistration ID
+  team: Types.ObjectId; // Team entitled to match
+  bid: Types.ObjectId; // Winning bid being matched
+}
+
+export interface IPlayerSet {
+  _id: Types.ObjectId;
+  name: string; // e.g. "Marquee", "Capped Batsmen"
+  randomiseOrder: boolean; // Shuffle nomination order within the set
+}
+
 export interface IAuction extends Document, ITimestamps {
   _id: Types.ObjectId;
   name: string;
   description?: string;
   sportType: SportType;
+  format: AuctionFormat;
   sportConfig: ISportConfig;
   password: string;
   passwordHash: string;
-  bidIncrementAmount: number;
+  bidIncrementAmount: number; // Increment below the first tier
+  bidIncrementTiers: IBidIncrementTier[];
   teamBudget: number;
   status: AuctionStatus;
   bidTimerSeconds: number;
+  softClose?: ISoftCloseRules; // Without rules every bid restarts the full timer
+  lotExtensionSeconds: number; // Soft-close extension used by the current lot
+  goingOnceSeconds: number; // Seconds left when the lot is called "going once"
+  goingTwiceSeconds: number; // Seconds left when the lot is called "going twice"
+  lotPasses: Types.ObjectId[]; // Teams that passed on the current lot
   maxTeams?: number;
-  maxPlayersPerTeam?: number;
+  maxPlayersPerTeam?: number; // Maximum squad size
+  squadRules?: ISquadRules;
+  rtmCardsPerTeam: number;
+  rtmWindowSeconds: number;
+  maxRetentionsPerTeam: number;
   scheduledStartTime?: Date;
   actualStartTime?: Date;
   endTime?: Date;
   currentPlayerOnBlock?: Types.ObjectId;
+  biddingEndsAt?: Date; // Absolute deadline for the current lot
+  pausedTimeRemaining?: number; // Seconds left on the current lot when paused
+  pendingRightToMatch?: IPendingRightToMatch;
+  currentRound: number; // 1 for the main auction, incremented by each accelerated round
+  roundBidTimerSeconds?: number; // Bid timer override for the current accelerated round
+  playerSets: IPlayerSet[]; // Nominated in array order
+  currentSet?: Types.ObjectId; // Set the player on the block was drawn from
+  autoRun: boolean; // Nominate players automatically after each lot
+  autoRunGapSeconds: number; // Pause between lots in auto-run mode
+  draftOrderType: DraftOrderType;
+  draftOrder: Types.ObjectId[]; // Team IDs in first-round pick order
+  currentPick: number; // Zero-based overall pick on the clock in a draft
+  eventSeq: number; // Sequence number of the last event broadcast to the room
   createdBy: Types.ObjectId;
 }
 
@@ -136,6 +208,7 @@ export interface IAcquiredPlayer {
   player: Types.ObjectId;
   soldPrice: number;
   acquiredAt: Date;
+  source: AcquisitionSource;
 }
 
 export interface ITeam extends Document, ITimestamps {
@@ -164,7 +237,17 @@ export interface IPlayerRegistration extends Document, ITimestamps {
   status: PlayerAuctionStatus;
   soldPrice?: number;
   soldTo?: Types.ObjectId; // Team ID
+  previousTeam?: Types.ObjectId; // Team ID holding Right-to-Match
+  soldInRound?: number;
+  resultAt?: Date; // When the player was last sold or went unsold
+  currentBid?: number; // Highest accepted bid while on the block
+  currentBidTeam?: Types.ObjectId; // Team ID
+  bidVersion: number; // Incremented on every accepted bid
+  acceptedBids: Types.ObjectId[]; // Bid IDs, recorded as each bid claims the lot
   registrationOrder: number;
+  playerSet?: Types.ObjectId; // Auction.playerSets entry
+  setPosition?: number; // Nomination order within the set
+  draftPick?: number; // Overall pick number (1-based) in a draft
   profile: IPlayerProfile;
 }
 
@@ -191,76 +274,78 @@ export interface IBid extends Document, ITimestamps {
   amount: number;
   status: BidStatus;
   bidNumber: number; // Sequential bid number for this player
+  isRightToMatch: boolean;
+  isProxy: boolean; // Placed automatically from a proxy ceiling
+  isSealed: boolean; // Hidden until the sealed lot is revealed
+  idempotencyKey?: string; // Client-generated, so a retried bid is only placed once
   timestamp: Date;
 }
 
+export interface IProxyBid extends Document, ITimestamps {
+  _id: Types.ObjectId;
+  auction: Types.ObjectId;
+  player: Types.ObjectId; // PlayerRegistration ID
+  team: Types.ObjectId;
+  owner: Types.ObjectId; // User ID of team owner
+  maxAmount: number; // Ceiling the engine may bid up to
+  isActive: boolean;
+}
+
 // ============================================
-// Socket Event Types
+// Wishlist Types
 // ============================================
 
-export interface IJoinAuctionPayload {
-  auctionId: string;
-  password: string;
+export interface IWishlistEntry extends Document, ITimestamps {
+  _id: Types.ObjectId;
+  auction: Types.ObjectId;
+  team: Types.ObjectId;
+  player: Types.ObjectId; // PlayerRegistration ID
+  priority: WishlistPriority;
+  targetPrice?: number; // Price the owner is prepared to pay
+  notes?: string;
 }
 
-export interface IPlaceBidPayload {
-  auctionId: string;
-  playerId: string;
-  teamId: string;
-  amount: number;
-}
+// ============================================
+// Sale Correction Types
+// ============================================
 
-export interface IBidUpdatePayload {
-  auctionId: string;
-  playerId: string;
-  currentBid: number;
-  teamId: string;
-  teamName: string;
-  bidderName: string;
-  timestamp: Date;
-  timeRemaining: number;
+export interface ISaleCorrection extends Document, ITimestamps {
+  _id: Types.ObjectId;
+  auction: Types.ObjectId;
+  player: Types.ObjectId; // PlayerRegistration ID
+  action: CorrectionAction;
+  previousStatus: PlayerAuctionStatus;
+  fromTeam?: Types.ObjectId; // Team the player was sold to
+  toTeam?: Types.ObjectId; // Team the sale was reassigned to
+  previousPrice?: number;
+  newPrice?: number;
+  reason: string;
+  correctedBy: Types.ObjectId; // User ID of the admin
 }
 
-export interface ITimerUpdatePayload {
-  auctionId: string;
-  playerId: string;
-  timeRemaining: number;
-}
+// ============================================
+// Auction Event Log Types
+// ============================================
 
-export interface IPlayerSoldPayload {
-  auctionId: string;
-  playerId: string;
-  playerName: string;
-  teamId: string;
-  teamName: string;
-  soldPrice: number;
+export interface IAuctionEvent extends Document, ITimestamps {
+  _id: Types.ObjectId;
+  auction: Types.ObjectId;
+  seq: number;
+  event: RoomEvent;
+  payload: Record<string, unknown>;
 }
 
-export interface IPlayerUnsoldPayload {
-  auctionId: string;
-  playerId: string;
-  playerName: string;
-}
+// ============================================
+// Socket Event Types
+// ============================================
 
-export interface IAuctionStatePayload {
-  auctionId: string;
-  status: AuctionStatus;
-  currentPlayer?: {
-    id: string;
-    name: string;
-    role: string;
-    basePrice: number;
-    currentBid: number;
-    currentTeam?: string;
-    timeRemaining: number;
-  };
-  teams: Array<{
-    id: string;
-    name: string;
-    remainingBudget: number;
-    playerCount: number;
-  }>;
-}
+// Event names, payloads and the shared enums they use are defined once for
+// the backend and frontend in @bidzr/shared
+export * from '@bidzr/shared';
+
+// Socket.IO server and sockets checked against the event contract
+export type IAuctionServer = Server<ClientToServerEvents, ServerToClientEvents>;
+export type IAuctionSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
 
 // ============================================
 // API Request/Response Types
@@ -280,17 +365,63 @@ export interface ICreateAuctionRequest {
   name: string;
   description?: string;
   sportType: SportType;
+  format?: AuctionFormat;
+  draftOrderType?: DraftOrderType;
   password: string;
   bidIncrementAmount: number;
+  bidIncrementTiers?: IBidIncrementTier[];
   teamBudget: number;
   bidTimerSeconds?: number;
+  softClose?: ISoftCloseRules;
+  goingOnceSeconds?: number;
+  goingTwiceSeconds?: number;
   basePriceTiers: IBasePriceTier[];
   roles?: string[];
   maxTeams?: number;
   maxPlayersPerTeam?: number;
+  squadRules?: ISquadRules;
+  rtmCardsPerTeam?: number;
+  rtmWindowSeconds?: number;
+  maxRetentionsPerTeam?: number;
   scheduledStartTime?: string;
 }
 
+export interface IPlayerSetRequest {
+  name: string;
+  randomiseOrder?: boolean;
+  playerIds: string[]; // In nomination order
+}
+
+export interface ISetProxyBidRequest {
+  auctionId: string;
+  playerId: string;
+  maxAmount: number;
+}
+
+export interface IDraftOrderRequest {
+  teamIds: string[]; // First-round pick order
+  orderType?: DraftOrderType;
+}
+
+export interface IWishlistEntryRequest {
+  priority: WishlistPriority;
+  targetPrice?: number;
+  notes?: string;
+}
+
+export interface IReassignSaleRequest {
+  playerId: string;
+  teamId: string;
+  reason: string;
+  price?: number; // Defaults to the original sale price
+}
+
+export interface IRetainPlayerRequest {
+  teamId: string;
+  playerId: string;
+  price: number;
+}
+
 export interface IRegisterTeamRequest {
   auctionId: string;
   password: string;
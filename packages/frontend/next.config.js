@@ -1,7 +1,15 @@
+const path = require('path');
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
   output: 'standalone',
+  // Bundle the shared socket contract, and trace dependencies hoisted to the
+  // monorepo root into the standalone output
+  transpilePackages: ['@bidzr/shared'],
+  experimental: {
+    outputFileTracingRoot: path.join(__dirname, '../../'),
+  },
   images: {
     domains: ['lh3.googleusercontent.com', 'avatars.githubusercontent.com', 'api.dicebear.com'],
   },
@@ -1,16 +1,45 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
 import { useAuthStore } from '@/store/auth-store';
 import { useAuctionStore } from '@/store/auction-store';
-import { socketManager } from '@/lib/socket';
+import { socketManager, SOCKET_EVENTS } from '@/lib/socket';
+import {
+  getBidIncrement,
+  type IAuctionStatePayload,
+  type IBidUpdatePayload,
+  type IPlayerOnBlockPayload,
+  type IPlayerSoldPayload,
+  type IPlayerUnsoldPayload,
+  type LotPhase,
+} from '@bidzr/shared';
 import api from '@/lib/api';
+import type { AppError } from '@/lib/errors';
 import { formatCurrency, cn } from '@/lib/utils';
-import { Gavel, Play, StopCircle, Target, Zap, Shield } from 'lucide-react';
+import {
+  Bot,
+  CornerUpLeft,
+  Gavel,
+  Hand,
+  ListOrdered,
+  Play,
+  Pause,
+  RotateCcw,
+  SkipForward,
+  Star,
+  StopCircle,
+  Target,
+  Zap,
+  Shield,
+  Undo2,
+  Volume2,
+  VolumeX,
+} from 'lucide-react';
 import { CricketIcon } from '@/components/icons/sports-icons';
 
 interface Team {
@@ -33,17 +62,59 @@ interface Player {
   basePrice: number;
 }
 
+interface RightToMatchOffer {
+  playerId: string;
+  playerName: string;
+  teamId: string;
+  teamName: string;
+  winningTeamName: string;
+  amount: number;
+}
+
+interface WishlistEntry {
+  priority: 'high' | 'medium' | 'low';
+  targetPrice?: number;
+  notes?: string;
+}
+
+interface SealedBidReveal {
+  playerName: string;
+  bids: { rank: number; teamId: string; teamName: string; amount: number }[];
+}
+
+interface DraftPick {
+  pickNumber: number;
+  teamId: string;
+  playerName: string;
+  autoPicked?: boolean;
+}
+
+interface DraftBoard {
+  order: { _id: string; name: string; shortName: string }[];
+  picks: DraftPick[];
+  onClock: { teamId: string; pickNumber: number; round: number } | null;
+}
+
+// Banner and auctioneer call for each phase of a lot
+const LOT_PHASES: Record<LotPhase, { label: string; call: string; className: string }> = {
+  open: { label: 'Bidding Open', call: 'Bidding open', className: 'bg-green-600 text-white' },
+  going_once: { label: 'Going Once...', call: 'Going once', className: 'bg-yellow-400 text-yellow-900' },
+  going_twice: { label: 'Going Twice...', call: 'Going twice', className: 'bg-orange-500 text-white' },
+  sold: { label: 'SOLD!', call: 'Sold!', className: 'bg-red-600 text-white' },
+};
+
 interface Bid {
   team: string;
   teamName: string;
   amount: number;
+  isProxy?: boolean;
   timestamp: Date;
 }
 
 export default function AuctionRoomPage() {
   const params = useParams();
   const router = useRouter();
-  const { toast } = useToast();
+  const { toast, toastError } = useToast();
   const { user, accessToken } = useAuthStore();
   const { 
     currentPlayer, 
@@ -61,22 +132,62 @@ export default function AuctionRoomPage() {
   const [teams, setTeams] = useState<Team[]>([]);
   const [myTeam, setMyTeam] = useState<Team | null>(null);
   const [bidHistory, setBidHistory] = useState<Bid[]>([]);
+  const [maxBids, setMaxBids] = useState<Record<string, number>>({});
+  const [rtmOffer, setRtmOffer] = useState<RightToMatchOffer | null>(null);
+  const [currentSetName, setCurrentSetName] = useState<string | null>(null);
+  const [autoRun, setAutoRun] = useState(false);
+  const [proxyBids, setProxyBids] = useState<Record<string, number>>({});
+  const [proxyAmount, setProxyAmount] = useState('');
+  const [wishlist, setWishlist] = useState<Record<string, WishlistEntry>>({});
+  const [sealedAmount, setSealedAmount] = useState('');
+  const [mySealedBid, setMySealedBid] = useState<number | null>(null);
+  const [sealedBidCount, setSealedBidCount] = useState(0);
+  const [sealedReveal, setSealedReveal] = useState<SealedBidReveal | null>(null);
+  const [lotExtension, setLotExtension] = useState(0);
+  const [lotPhase, setLotPhase] = useState<LotPhase | null>(null);
+  const [passedTeams, setPassedTeams] = useState<string[]>([]);
+  const [soundOn, setSoundOn] = useState(false);
+  const soundOnRef = useRef(soundOn);
+  const [draftBoard, setDraftBoard] = useState<DraftBoard | null>(null);
+  const [draftPool, setDraftPool] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isBidding, setIsBidding] = useState(false);
 
   const auctionId = params.id as string;
 
   // Calculate next bid amount
-  const nextBidAmount = currentBid 
-    ? currentBid + (auction?.minBidIncrement || 100000)
-    : (currentPlayer as any)?.basePrice || 0;
+  const isSealed = auction?.format === 'sealed';
+  const isDraft = auction?.format === 'draft';
+
+  // Walk the auction's increment ladder up from an amount
+  const raiseBid = (amount: number) =>
+    amount +
+    getBidIncrement(amount, auction?.bidIncrementAmount || 100000, auction?.bidIncrementTiers);
+
+  // Sealed lots have no running price, so the floor is always the base price
+  const nextBidAmount = currentBid && !isSealed
+    ? raiseBid(currentBid)
+    : currentPlayer?.basePrice || 0;
+
+  // Quick bids skip one or two steps up the ladder
+  const quickBidAmounts = [raiseBid(nextBidAmount), raiseBid(raiseBid(nextBidAmount))];
+
+  // Budget left after reserving the base price for remaining squad slots
+  const myMaxBid = myTeam ? maxBids[myTeam._id] : undefined;
+  const exceedsMaxBid = myMaxBid !== undefined && myMaxBid < nextBidAmount;
+
+  const hasPassed = !!myTeam && passedTeams.includes(myTeam._id);
 
   // Check if user can bid
   const canBid = 
     user?.role === 'team_owner' && 
     myTeam && 
     myTeam.budget >= nextBidAmount &&
+    !exceedsMaxBid &&
+    !hasPassed &&
     currentPlayer &&
+    !rtmOffer &&
+    auction?.status !== 'paused' &&
     isConnected;
 
   // Fetch auction data
@@ -113,6 +224,69 @@ export default function AuctionRoomPage() {
     fetchAuction();
   }, [auctionId, accessToken, user, toast]);
 
+  // Fetch the team's proxy ceilings
+  useEffect(() => {
+    const fetchProxyBids = async () => {
+      if (!accessToken || !auctionId || user?.role !== 'team_owner') return;
+
+      try {
+        const response: any = await api.getMyProxyBids(auctionId, accessToken);
+        const ceilings: Record<string, number> = {};
+        for (const proxy of response.data?.proxyBids || []) {
+          ceilings[proxy.player?._id || proxy.player] = proxy.maxAmount;
+        }
+        setProxyBids(ceilings);
+      } catch (error) {
+        console.error('Failed to fetch proxy bids:', error);
+      }
+    };
+
+    fetchProxyBids();
+  }, [auctionId, accessToken, user]);
+
+  // Fetch the team's private wishlist
+  useEffect(() => {
+    const fetchWishlist = async () => {
+      if (!accessToken || !myTeam) return;
+
+      try {
+        const response: any = await api.getWishlist(myTeam._id, accessToken);
+        const entries: Record<string, WishlistEntry> = {};
+        for (const entry of response.data?.wishlist || []) {
+          entries[entry.player?._id || entry.player] = entry;
+        }
+        setWishlist(entries);
+      } catch (error) {
+        console.error('Failed to fetch wishlist:', error);
+      }
+    };
+
+    fetchWishlist();
+  }, [accessToken, myTeam]);
+
+  // Socket handlers read the sound setting without re-subscribing
+  useEffect(() => {
+    soundOnRef.current = soundOn;
+  }, [soundOn]);
+
+  // Fetch the players still available to draft
+  useEffect(() => {
+    const fetchDraftPool = async () => {
+      if (!accessToken || !auctionId || !isDraft) return;
+
+      try {
+        const response: any = await api.getPlayersByAuction(auctionId, accessToken, {
+          status: 'pending',
+        });
+        setDraftPool(response.data?.players || []);
+      } catch (error) {
+        console.error('Failed to fetch draft pool:', error);
+      }
+    };
+
+    fetchDraftPool();
+  }, [auctionId, accessToken, isDraft]);
+
   // Socket connection
   useEffect(() => {
     if (!accessToken || !auctionId) return;
@@ -141,60 +315,266 @@ export default function AuctionRoomPage() {
       });
     };
 
-    const handlePlayerUp = (data: { player: any; basePrice: number }) => {
-      setCurrentPlayer(data.player);
-      setCurrentBid(data.basePrice);
+    const handlePlayerOnBlock = (data: IPlayerOnBlockPayload) => {
+      setCurrentPlayer({
+        ...data.player,
+        currentBid: data.player.basePrice,
+        timeRemaining: data.timeRemaining,
+      });
+      setCurrentBid(0);
       setBidHistory([]);
+      setMySealedBid(null);
+      setSealedBidCount(0);
+      setSealedReveal(null);
+      setPassedTeams([]);
       toast({
         title: 'New Player',
-        description: `${data.player.player?.name} is now up for bidding!`,
+        description: `${data.player.name} is now up for bidding!`,
       });
     };
 
-    const handleBidPlaced = (data: { team: any; amount: number; teamId: string }) => {
-      setCurrentBid(data.amount);
+    const handleBidUpdate = (data: IBidUpdatePayload) => {
+      setCurrentBid(data.currentBid);
       setBidHistory((prev) => [
-        { 
-          team: data.teamId, 
-          teamName: data.team?.name || 'Unknown', 
-          amount: data.amount, 
-          timestamp: new Date() 
+        {
+          team: data.teamId,
+          teamName: data.teamName,
+          amount: data.currentBid,
+          isProxy: data.isProxy,
+          timestamp: new Date(data.timestamp),
         },
         ...prev,
       ]);
     };
 
-    const handleTimerUpdate = (data: { timeRemaining: number }) => {
+    const handleAuctionState = (data: IAuctionStatePayload) => {
+      setAutoRun(data.auction.autoRun);
+      setPassedTeams(data.auction.lotPasses);
+      if (data.currentPlayer) {
+        setCurrentPlayer(data.currentPlayer);
+        setCurrentBid(data.currentPlayer.currentTeam ? data.currentPlayer.currentBid : 0);
+      }
+      if (data.draft) {
+        const { order, picks, onClock } = data.draft;
+        setDraftBoard({ order, onClock, picks });
+      }
+      setMaxBids(Object.fromEntries(data.teams.map((t) => [t.id, t.maxBid])));
+    };
+
+    const handleTeamUpdate = (data: {
+      teamId: string;
+      remainingBudget: number;
+      maxBid: number;
+    }) => {
+      setMaxBids((prev) => ({ ...prev, [data.teamId]: data.maxBid }));
+      setTeams((prev) =>
+        prev.map((t) =>
+          t._id === data.teamId ? { ...t, budget: data.remainingBudget } : t
+        )
+      );
+    };
+
+    const handleRightToMatchOffer = (data: RightToMatchOffer) => {
+      setRtmOffer(data);
+      toast({
+        title: 'Right-to-Match',
+        description: `${data.teamName} can match ${data.winningTeamName}'s bid of ${formatCurrency(data.amount)} for ${data.playerName}`,
+      });
+    };
+
+    const handleRoundStarted = (data: { round: number; playerIds: string[] }) => {
+      toast({
+        title: `Round ${data.round}`,
+        description: `${data.playerIds.length} unsold players are back up for auction`,
+      });
+    };
+
+    const handleSetChanged = (data: { setName: string | null; playersRemaining: number }) => {
+      setCurrentSetName(data.setName);
+      if (data.setName) {
+        toast({
+          title: `Now auctioning: ${data.setName}`,
+          description: `${data.playersRemaining} players in this set`,
+        });
+      }
+    };
+
+    const handleAutoRunUpdate = (data: { enabled: boolean; nextLotIn?: number }) => {
+      setAutoRun(data.enabled);
+      if (data.enabled && data.nextLotIn !== undefined) {
+        toast({
+          title: 'Auto-run',
+          description: `Next player in ${data.nextLotIn}s`,
+        });
+      }
+    };
+
+    const handleSaleCorrected = (data: {
+      playerName: string;
+      action: 'undo' | 'reassign';
+      reason: string;
+    }) => {
+      toast({
+        title: data.action === 'undo' ? 'Result undone' : 'Sale reassigned',
+        description: `${data.playerName}: ${data.reason}`,
+      });
+    };
+
+    const handleSealedBidReceived = (data: { bidCount: number }) => {
+      setSealedBidCount(data.bidCount);
+    };
+
+    const handleSealedBidsRevealed = (data: SealedBidReveal) => {
+      setSealedReveal(data);
+    };
+
+    const handleDraftOnClock = (data: {
+      pickNumber: number;
+      round: number;
+      teamId: string;
+      timeRemaining: number;
+    }) => {
       setTimer(data.timeRemaining);
+      setDraftBoard((prev) =>
+        prev
+          ? {
+              ...prev,
+              onClock: { teamId: data.teamId, pickNumber: data.pickNumber, round: data.round },
+            }
+          : prev
+      );
     };
 
-    const handlePlayerSold = (data: { player: any; team: any; amount: number }) => {
+    const handleDraftPickMade = (data: {
+      pickNumber: number;
+      teamId: string;
+      teamName: string;
+      playerId: string;
+      playerName: string;
+      autoPicked: boolean;
+    }) => {
+      setDraftBoard((prev) =>
+        prev
+          ? {
+              ...prev,
+              picks: [
+                ...prev.picks,
+                {
+                  pickNumber: data.pickNumber,
+                  teamId: data.teamId,
+                  playerName: data.playerName,
+                  autoPicked: data.autoPicked,
+                },
+              ],
+            }
+          : prev
+      );
+      setDraftPool((prev) => prev.filter((p) => p._id !== data.playerId));
+      setTeams((prev) =>
+        prev.map((t) =>
+          t._id === data.teamId ? { ...t, players: [...(t.players || []), data.playerId] } : t
+        )
+      );
+      toast({
+        title: `Pick ${data.pickNumber}`,
+        description: `${data.teamName} ${data.autoPicked ? 'auto-picked' : 'picked'} ${data.playerName}`,
+      });
+    };
+
+    const handleLotPhase = (data: { phase: LotPhase }) => {
+      setLotPhase(data.phase);
+      if (soundOnRef.current && typeof window !== 'undefined' && 'speechSynthesis' in window) {
+        window.speechSynthesis.cancel();
+        window.speechSynthesis.speak(new SpeechSynthesisUtterance(LOT_PHASES[data.phase].call));
+      }
+    };
+
+    const handlePlayerWithdrawn = (data: { playerName: string }) => {
+      setCurrentPlayer(null);
+      setCurrentBid(0);
+      setBidHistory([]);
+      setLotPhase(null);
+      setPassedTeams([]);
+      toast({
+        title: 'Player withdrawn',
+        description: `${data.playerName} was taken off the block and will be nominated again later`,
+      });
+    };
+
+    const handleLotPassed = (data: { teamId: string; teamName: string; teamsStillIn: number }) => {
+      setPassedTeams((prev) => (prev.includes(data.teamId) ? prev : [...prev, data.teamId]));
+      toast({
+        title: `${data.teamName} passed`,
+        description:
+          data.teamsStillIn > 0
+            ? `${data.teamsStillIn} ${data.teamsStillIn === 1 ? 'team' : 'teams'} still in`
+            : 'Everyone else is out, closing the lot',
+      });
+    };
+
+    const handleTimerUpdate = (data: {
+      timeRemaining: number;
+      extensionSeconds?: number;
+      extendedBy?: number;
+    }) => {
+      setTimer(data.timeRemaining);
+      setLotExtension(data.extensionSeconds || 0);
+      if (data.extendedBy) {
+        toast({
+          title: 'Lot extended',
+          description: `Late bid: ${data.extendedBy}s added to the clock`,
+        });
+      }
+    };
+
+    // Budgets arrive separately in team updates
+    const handlePlayerSold = (data: IPlayerSoldPayload) => {
       toast({
         title: 'SOLD!',
-        description: `${data.player.player?.name} sold to ${data.team?.name} for ${formatCurrency(data.amount)}`,
+        description: `${data.playerName} sold to ${data.teamName} for ${formatCurrency(data.soldPrice)}`,
       });
       setCurrentPlayer(null);
       setCurrentBid(0);
       setBidHistory([]);
-      
-      // Update teams
+      setRtmOffer(null);
+      setPassedTeams([]);
       setTeams((prev) =>
         prev.map((t) =>
-          t._id === data.team._id
-            ? { ...t, budget: t.budget - data.amount, totalSpent: t.totalSpent + data.amount }
-            : t
+          t._id === data.teamId ? { ...t, totalSpent: t.totalSpent + data.soldPrice } : t
         )
       );
     };
 
-    const handlePlayerUnsold = (data: { player: any }) => {
+    const handlePlayerUnsold = (data: IPlayerUnsoldPayload) => {
       toast({
         title: 'Unsold',
-        description: `${data.player.player?.name} went unsold`,
+        description: data.reason
+          ? `${data.playerName} went unsold: ${data.reason}`
+          : `${data.playerName} went unsold`,
       });
       setCurrentPlayer(null);
       setCurrentBid(0);
       setBidHistory([]);
+      setLotPhase(null);
+      setPassedTeams([]);
+    };
+
+    const handleAuctionPaused = (data: { timeRemaining: number }) => {
+      setAuction((prev: any) => (prev ? { ...prev, status: 'paused' } : prev));
+      setTimer(data.timeRemaining);
+      toast({
+        title: 'Auction Paused',
+        description: 'Bidding is on hold',
+      });
+    };
+
+    const handleAuctionStarted = (data: { timeRemaining: number }) => {
+      setAuction((prev: any) => (prev ? { ...prev, status: 'live' } : prev));
+      setTimer(data.timeRemaining);
+      toast({
+        title: 'Auction Live',
+        description: 'Bidding has resumed',
+      });
     };
 
     const handleAuctionEnded = () => {
@@ -206,54 +586,83 @@ export default function AuctionRoomPage() {
       router.push('/dashboard');
     };
 
-    const handleError = (data: { message: string }) => {
-      toast({
-        variant: 'destructive',
-        title: 'Error',
-        description: data.message,
-      });
+    const handleError = (data: AppError) => {
+      toastError(data);
     };
 
-    // Register event listeners
+    // Register event listeners. Room events go through the socket manager,
+    // which passes them on in sequence order.
     const socket = socketManager.getSocket();
-    if (socket) {
-      socket.on('connect', handleConnect);
-      socket.on('disconnect', handleDisconnect);
-      socket.on('player:up', handlePlayerUp);
-      socket.on('bid:placed', handleBidPlaced);
-      socket.on('timer:update', handleTimerUpdate);
-      socket.on('player:sold', handlePlayerSold);
-      socket.on('player:unsold', handlePlayerUnsold);
-      socket.on('auction:ended', handleAuctionEnded);
-      socket.on('error', handleError);
-    }
+    socket?.on('connect', handleConnect);
+    socket?.on('disconnect', handleDisconnect);
+    socketManager.on(SOCKET_EVENTS.PLAYER_ON_BLOCK, handlePlayerOnBlock);
+    socketManager.on(SOCKET_EVENTS.BID_UPDATE, handleBidUpdate);
+    socketManager.on(SOCKET_EVENTS.TIMER_UPDATE, handleTimerUpdate);
+    socketManager.on(SOCKET_EVENTS.AUCTION_STATE, handleAuctionState);
+    socketManager.on(SOCKET_EVENTS.TEAM_UPDATE, handleTeamUpdate);
+    socketManager.on(SOCKET_EVENTS.AUCTION_PAUSED, handleAuctionPaused);
+    socketManager.on(SOCKET_EVENTS.AUCTION_STARTED, handleAuctionStarted);
+    socketManager.on(SOCKET_EVENTS.RTM_OFFER, handleRightToMatchOffer);
+    socketManager.on(SOCKET_EVENTS.PLAYER_SOLD, handlePlayerSold);
+    socketManager.on(SOCKET_EVENTS.ROUND_STARTED, handleRoundStarted);
+    socketManager.on(SOCKET_EVENTS.SET_CHANGED, handleSetChanged);
+    socketManager.on(SOCKET_EVENTS.AUTO_RUN_UPDATE, handleAutoRunUpdate);
+    socketManager.on(SOCKET_EVENTS.SALE_CORRECTED, handleSaleCorrected);
+    socketManager.on(SOCKET_EVENTS.SEALED_BID_RECEIVED, handleSealedBidReceived);
+    socketManager.on(SOCKET_EVENTS.SEALED_BIDS_REVEALED, handleSealedBidsRevealed);
+    socketManager.on(SOCKET_EVENTS.DRAFT_ON_CLOCK, handleDraftOnClock);
+    socketManager.on(SOCKET_EVENTS.DRAFT_PICK_MADE, handleDraftPickMade);
+    socketManager.on(SOCKET_EVENTS.LOT_PHASE, handleLotPhase);
+    socketManager.on(SOCKET_EVENTS.PLAYER_UNSOLD, handlePlayerUnsold);
+    socketManager.on(SOCKET_EVENTS.LOT_PASSED, handleLotPassed);
+    socketManager.on(SOCKET_EVENTS.PLAYER_WITHDRAWN, handlePlayerWithdrawn);
+    socketManager.on(SOCKET_EVENTS.AUCTION_ENDED, handleAuctionEnded);
+    socketManager.on(SOCKET_EVENTS.ERROR, handleError);
 
     // Cleanup
     return () => {
-      if (socket) {
-        socket.off('connect', handleConnect);
-        socket.off('disconnect', handleDisconnect);
-        socket.off('player:up', handlePlayerUp);
-        socket.off('bid:placed', handleBidPlaced);
-        socket.off('timer:update', handleTimerUpdate);
-        socket.off('player:sold', handlePlayerSold);
-        socket.off('player:unsold', handlePlayerUnsold);
-        socket.off('auction:ended', handleAuctionEnded);
-        socket.off('error', handleError);
-      }
+      socket?.off('connect', handleConnect);
+      socket?.off('disconnect', handleDisconnect);
+      socketManager.off(SOCKET_EVENTS.PLAYER_ON_BLOCK, handlePlayerOnBlock);
+      socketManager.off(SOCKET_EVENTS.BID_UPDATE, handleBidUpdate);
+      socketManager.off(SOCKET_EVENTS.TIMER_UPDATE, handleTimerUpdate);
+      socketManager.off(SOCKET_EVENTS.AUCTION_STATE, handleAuctionState);
+      socketManager.off(SOCKET_EVENTS.TEAM_UPDATE, handleTeamUpdate);
+      socketManager.off(SOCKET_EVENTS.AUCTION_PAUSED, handleAuctionPaused);
+      socketManager.off(SOCKET_EVENTS.AUCTION_STARTED, handleAuctionStarted);
+      socketManager.off(SOCKET_EVENTS.RTM_OFFER, handleRightToMatchOffer);
+      socketManager.off(SOCKET_EVENTS.PLAYER_SOLD, handlePlayerSold);
+      socketManager.off(SOCKET_EVENTS.ROUND_STARTED, handleRoundStarted);
+      socketManager.off(SOCKET_EVENTS.SET_CHANGED, handleSetChanged);
+      socketManager.off(SOCKET_EVENTS.AUTO_RUN_UPDATE, handleAutoRunUpdate);
+      socketManager.off(SOCKET_EVENTS.SALE_CORRECTED, handleSaleCorrected);
+      socketManager.off(SOCKET_EVENTS.SEALED_BID_RECEIVED, handleSealedBidReceived);
+      socketManager.off(SOCKET_EVENTS.SEALED_BIDS_REVEALED, handleSealedBidsRevealed);
+      socketManager.off(SOCKET_EVENTS.DRAFT_ON_CLOCK, handleDraftOnClock);
+      socketManager.off(SOCKET_EVENTS.DRAFT_PICK_MADE, handleDraftPickMade);
+      socketManager.off(SOCKET_EVENTS.LOT_PHASE, handleLotPhase);
+      socketManager.off(SOCKET_EVENTS.PLAYER_UNSOLD, handlePlayerUnsold);
+      socketManager.off(SOCKET_EVENTS.LOT_PASSED, handleLotPassed);
+      socketManager.off(SOCKET_EVENTS.PLAYER_WITHDRAWN, handlePlayerWithdrawn);
+      socketManager.off(SOCKET_EVENTS.AUCTION_ENDED, handleAuctionEnded);
+      socketManager.off(SOCKET_EVENTS.ERROR, handleError);
       socketManager.leaveAuction();
       reset();
     };
-  }, [accessToken, auctionId, router, toast, reset, setConnected, setCurrentBid, setCurrentPlayer, setTimer]);
+  }, [accessToken, auctionId, router, toast, toastError, reset, setConnected, setCurrentBid, setCurrentPlayer, setTimer]);
 
   // Place bid
-  const handlePlaceBid = useCallback(async () => {
+  const handlePlaceBid = useCallback(async (amount: number) => {
     if (!canBid || !myTeam) return;
+    if (myMaxBid !== undefined && amount > myMaxBid) return;
 
     setIsBidding(true);
     try {
-      const playerId = (currentPlayer as any)?._id || (currentPlayer as any)?.id;
-      socketManager.placeBid(playerId, nextBidAmount);
+      const playerId = currentPlayer?.id;
+      const ack = await socketManager.placeBid(playerId, amount);
+      if (!ack.accepted) {
+        toastError(ack, 'Bid Rejected');
+      }
     } catch (error) {
       toast({
         variant: 'destructive',
@@ -263,15 +672,162 @@ export default function AuctionRoomPage() {
     } finally {
       setIsBidding(false);
     }
-  }, [canBid, myTeam, auctionId, nextBidAmount, toast]);
+  }, [canBid, myTeam, myMaxBid, currentPlayer, toast, toastError]);
+
+  const currentPlayerId = currentPlayer?.id;
+  const myProxyBid = currentPlayerId ? proxyBids[currentPlayerId] : undefined;
+  const wishlistEntry = currentPlayerId ? wishlist[currentPlayerId] : undefined;
+
+  const handleSetProxyBid = async () => {
+    const maxAmount = Number(proxyAmount);
+    if (!accessToken || !currentPlayerId || !maxAmount) return;
+    try {
+      await api.setProxyBid({ auctionId, playerId: currentPlayerId, maxAmount }, accessToken);
+      setProxyBids((prev) => ({ ...prev, [currentPlayerId]: maxAmount }));
+      setProxyAmount('');
+      toast({
+        title: 'Auto-bid set',
+        description: `We will bid for you up to ${formatCurrency(maxAmount)}`,
+      });
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not set auto-bid',
+        description: error.message || 'Failed to set proxy bid',
+      });
+    }
+  };
+
+  const handleCancelProxyBid = async () => {
+    if (!accessToken || !currentPlayerId) return;
+    try {
+      await api.cancelProxyBid(auctionId, currentPlayerId, accessToken);
+      setProxyBids((prev) => {
+        const { [currentPlayerId]: _cancelled, ...rest } = prev;
+        return rest;
+      });
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not cancel auto-bid',
+        description: error.message || 'Failed to cancel proxy bid',
+      });
+    }
+  };
+
+  const handlePass = () => {
+    if (!currentPlayerId || hasPassed) return;
+    socketManager.passLot(currentPlayerId);
+  };
+
+  const handleSubmitSealedBid = async () => {
+    const amount = Number(sealedAmount);
+    const basePrice = currentPlayer?.basePrice || 0;
+    if (!canBid || !currentPlayerId || mySealedBid !== null) return;
+
+    if (!amount || amount < basePrice) {
+      toast({
+        variant: 'destructive',
+        title: 'Bid too low',
+        description: `Sealed bids must be at least ${formatCurrency(basePrice)}`,
+      });
+      return;
+    }
+
+    const ack = await socketManager.placeBid(currentPlayerId, amount);
+    if (!ack.accepted) {
+      toastError(ack, 'Sealed bid rejected');
+      return;
+    }
+    setMySealedBid(amount);
+    setSealedAmount('');
+  };
+
+  // Draft: the team on the clock and the board laid out by round and team
+  const draftTeams = draftBoard?.order || [];
+  const teamOnClock = draftTeams.find((t) => t._id === draftBoard?.onClock?.teamId);
+  const isMyPick =
+    !!myTeam && draftBoard?.onClock?.teamId === myTeam._id && auction?.status === 'live';
+  const draftRounds = Math.max(
+    draftBoard?.onClock?.round || 0,
+    ...(draftBoard?.picks || []).map((p) => Math.ceil(p.pickNumber / (draftTeams.length || 1)))
+  );
+
+  const handleDraftPick = (playerId: string) => {
+    if (!isMyPick) return;
+    socketManager.makeDraftPick(playerId);
+  };
+
+  const handleRightToMatch = (accept: boolean) => {
+    if (!rtmOffer) return;
+    socketManager.respondToRightToMatch(rtmOffer.playerId, accept);
+    setRtmOffer(null);
+  };
 
   // Admin controls
   const handleStartNextPlayer = () => {
     socketManager.startNextPlayer(auctionId);
   };
 
-  const handleEndAuction = () => {
-    socketManager.endAuction(auctionId);
+  const handleTogglePause = () => {
+    if (auction?.status === 'paused') {
+      socketManager.startAuction();
+    } else {
+      socketManager.pauseAuction();
+    }
+  };
+
+  const handleToggleAutoRun = () => {
+    socketManager.setAutoRun(!autoRun);
+  };
+
+  const handleSkipPlayer = () => {
+    socketManager.skipPlayer();
+  };
+
+  const handleWithdrawPlayer = () => {
+    socketManager.withdrawPlayer();
+  };
+
+  const handleUndoLastResult = async () => {
+    if (!accessToken) return;
+    const reason = window.prompt('Why are you undoing the last result?');
+    if (!reason?.trim()) return;
+    try {
+      await api.undoLastResult(auctionId, reason.trim(), accessToken);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not undo',
+        description: error.message || 'Failed to undo the last result',
+      });
+    }
+  };
+
+  const handleReauctionUnsold = async () => {
+    if (!accessToken) return;
+    try {
+      await api.openAcceleratedRound(auctionId, {}, accessToken);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not open round',
+        description: error.message || 'Failed to re-auction unsold players',
+      });
+    }
+  };
+
+  const handleEndAuction = async () => {
+    if (!accessToken) return;
+    try {
+      await api.endAuction(auctionId, accessToken);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not end auction',
+        description: error.message || 'Failed to end the auction',
+      });
+    }
   };
 
   if (isLoading) {
@@ -336,8 +892,35 @@ export default function AuctionRoomPage() {
               'overflow-hidden transition-colors',
               timer <= 5 && timer > 0 ? 'border-red-500 bg-red-50 dark:bg-red-900/20' : ''
             )}>
-              <CardContent className="py-8">
+              <CardContent className="py-8 relative">
+                {!isDraft && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="absolute top-2 right-2"
+                    title={soundOn ? 'Mute auctioneer' : 'Hear auctioneer calls'}
+                    onClick={() => setSoundOn(!soundOn)}
+                  >
+                    {soundOn ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+                  </Button>
+                )}
                 <div className="text-center">
+                  {lotPhase && !isDraft && (
+                    <div
+                      className={cn(
+                        'inline-block px-4 py-1 mb-3 rounded-full text-sm font-bold uppercase tracking-wide',
+                        LOT_PHASES[lotPhase].className,
+                        lotPhase !== 'open' && 'animate-pulse'
+                      )}
+                    >
+                      {LOT_PHASES[lotPhase].label}
+                    </div>
+                  )}
+                  {currentSetName && (
+                    <p className="text-xs font-semibold uppercase tracking-wide text-green-600 mb-1">
+                      {currentSetName}
+                    </p>
+                  )}
                   <p className="text-sm text-gray-500 mb-2">Time Remaining</p>
                   <div className={cn(
                     'text-7xl font-mono font-bold',
@@ -345,30 +928,180 @@ export default function AuctionRoomPage() {
                   )}>
                     {timer > 0 ? `00:${timer.toString().padStart(2, '0')}` : '--:--'}
                   </div>
+                  {lotExtension > 0 && (
+                    <p className="text-sm text-orange-600 mt-2">
+                      Extended +{lotExtension}s
+                      {auction?.softClose && ` of ${auction.softClose.maxExtensionSeconds}s`}
+                    </p>
+                  )}
                 </div>
               </CardContent>
             </Card>
 
-            {/* Current Player */}
-            {currentPlayer ? (
-              <Card className="gradient-cricket text-white overflow-hidden">
+            {/* Current Player, or the draft board in a draft */}
+            {isDraft ? (
+              <>
+                <Card className={cn(isMyPick && 'ring-4 ring-green-500')}>
+                  <CardContent className="py-6">
+                    {draftBoard?.onClock ? (
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="text-sm text-gray-500">
+                            Round {draftBoard.onClock.round} &middot; Pick {draftBoard.onClock.pickNumber}
+                          </p>
+                          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                            {isMyPick ? 'You are on the clock' : `${teamOnClock?.name || 'A team'} is on the clock`}
+                          </h2>
+                        </div>
+                        <ListOrdered className="w-10 h-10 text-green-600" />
+                      </div>
+                    ) : (
+                      <p className="text-center text-gray-500">
+                        {auction?.status === 'upcoming' ? 'The draft has not started yet' : 'No team is on the clock'}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Draft Board</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {draftTeams.length > 0 && draftRounds > 0 ? (
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr>
+                              <th className="p-2 text-left text-gray-500 font-medium">Round</th>
+                              {draftTeams.map((team) => (
+                                <th key={team._id} className="p-2 text-left font-medium">
+                                  {team.shortName}
+                                </th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {Array.from({ length: draftRounds }, (_, index) => index + 1).map((round) => (
+                              <tr key={round} className="border-t dark:border-gray-700">
+                                <td className="p-2 text-gray-500">{round}</td>
+                                {draftTeams.map((team) => {
+                                  const pick = draftBoard?.picks.find(
+                                    (p) =>
+                                      p.teamId === team._id &&
+                                      Math.ceil(p.pickNumber / draftTeams.length) === round
+                                  );
+                                  const onClock =
+                                    draftBoard?.onClock?.round === round &&
+                                    draftBoard.onClock.teamId === team._id;
+                                  return (
+                                    <td
+                                      key={team._id}
+                                      className={cn('p-2', onClock && 'bg-green-50 dark:bg-green-900/20')}
+                                    >
+                                      {pick ? (
+                                        <>
+                                          <span className="font-medium">{pick.playerName}</span>
+                                          <span className="block text-xs text-gray-500">
+                                            #{pick.pickNumber}
+                                            {pick.autoPicked && ' (auto)'}
+                                          </span>
+                                        </>
+                                      ) : onClock ? (
+                                        <span className="text-green-600 font-medium">On the clock</span>
+                                      ) : null}
+                                    </td>
+                                  );
+                                })}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    ) : (
+                      <p className="text-gray-500 text-center py-4">No picks yet</p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Available Players</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {draftPool.length > 0 ? (
+                      <div className="space-y-2 max-h-96 overflow-y-auto">
+                        {draftPool.map((player) => (
+                          <div
+                            key={player._id}
+                            className="flex items-center justify-between p-3 rounded-lg bg-gray-50 dark:bg-gray-800"
+                          >
+                            <div className="flex items-center space-x-3">
+                              {wishlist[player._id] && <Star className="w-4 h-4 text-yellow-500" />}
+                              <span className="font-medium">{player.user?.name || 'Unknown Player'}</span>
+                              <span className="text-sm text-gray-500 capitalize">{player.playerRole}</span>
+                            </div>
+                            {isMyPick && (
+                              <Button
+                                size="sm"
+                                className="gradient-cricket text-white"
+                                onClick={() => handleDraftPick(player._id)}
+                              >
+                                Pick
+                              </Button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-gray-500 text-center py-4">Every player has been drafted</p>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            ) : currentPlayer ? (
+              <Card
+                className={cn(
+                  'gradient-cricket text-white overflow-hidden',
+                  wishlistEntry && 'ring-4 ring-yellow-400'
+                )}
+              >
                 <CardContent className="py-8">
+                  {wishlistEntry && (
+                    <div className="flex items-center gap-3 mb-4 text-sm">
+                      <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-yellow-400 text-yellow-900 font-semibold capitalize">
+                        <Star className="w-3 h-3" /> {wishlistEntry.priority} priority
+                      </span>
+                      {wishlistEntry.targetPrice !== undefined && wishlistEntry.targetPrice !== null && (
+                        <span
+                          className={cn(
+                            currentBid > wishlistEntry.targetPrice ? 'text-red-200' : 'text-green-100'
+                          )}
+                        >
+                          Target {formatCurrency(wishlistEntry.targetPrice)}
+                        </span>
+                      )}
+                      {wishlistEntry.notes && (
+                        <span className="text-green-100 truncate">{wishlistEntry.notes}</span>
+                      )}
+                    </div>
+                  )}
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-6">
                       <div className="w-24 h-24 rounded-full bg-white/20 flex items-center justify-center">
-                        {(currentPlayer as any).playerRole === 'batsman' ? <CricketIcon className="w-12 h-12" /> :
-                         (currentPlayer as any).playerRole === 'bowler' ? <Target className="w-12 h-12" /> :
-                         (currentPlayer as any).playerRole === 'wicket-keeper' ? <Shield className="w-12 h-12" /> : <Zap className="w-12 h-12" />}
+                        {currentPlayer.role === 'batsman' ? <CricketIcon className="w-12 h-12" /> :
+                         currentPlayer.role === 'bowler' ? <Target className="w-12 h-12" /> :
+                         currentPlayer.role === 'wicket-keeper' ? <Shield className="w-12 h-12" /> : <Zap className="w-12 h-12" />}
                       </div>
                       <div>
                         <h2 className="text-3xl font-bold">
-                          {(currentPlayer as any).player?.name || 'Unknown Player'}
+                          {currentPlayer.name || 'Unknown Player'}
                         </h2>
                         <p className="text-xl text-green-100 capitalize">
-                          {(currentPlayer as any).playerRole}
+                          {currentPlayer.role}
                         </p>
                         <p className="text-sm text-green-200 mt-1">
-                          Base Price: {formatCurrency((currentPlayer as any).basePrice)}
+                          Base Price: {formatCurrency(currentPlayer.basePrice)}
                         </p>
                       </div>
                     </div>
@@ -402,8 +1135,117 @@ export default function AuctionRoomPage() {
               </Card>
             )}
 
+            {/* Right-to-Match */}
+            {rtmOffer && myTeam && rtmOffer.teamId === myTeam._id && (
+              <Card className="border-yellow-500 bg-yellow-50 dark:bg-yellow-900/20">
+                <CardContent className="py-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm text-gray-500">Right-to-Match</p>
+                      <p className="text-lg font-semibold text-gray-900 dark:text-white">
+                        Match {rtmOffer.winningTeamName}&apos;s bid of{' '}
+                        {formatCurrency(rtmOffer.amount)} for {rtmOffer.playerName}?
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        className="gradient-cricket text-white"
+                        onClick={() => handleRightToMatch(true)}
+                      >
+                        Match
+                      </Button>
+                      <Button variant="outline" onClick={() => handleRightToMatch(false)}>
+                        Pass
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Sealed Bid */}
+            {isSealed && user?.role === 'team_owner' && currentPlayer && (
+              <Card>
+                <CardContent className="py-6">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="text-sm text-gray-500">Sealed Bid</p>
+                      <p className="text-sm text-gray-500">
+                        {sealedBidCount} {sealedBidCount === 1 ? 'bid' : 'bids'} received. Bids are revealed when the timer ends.
+                      </p>
+                    </div>
+                    {mySealedBid !== null ? (
+                      <div className="text-right">
+                        <p className="text-sm text-gray-500">Your bid</p>
+                        <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                          {formatCurrency(mySealedBid)}
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min={currentPlayer.basePrice}
+                          placeholder="Your bid"
+                          value={sealedAmount}
+                          onChange={(e) => setSealedAmount(e.target.value)}
+                          className="max-w-[180px]"
+                        />
+                        <Button
+                          className="gradient-cricket text-white"
+                          disabled={!canBid || !sealedAmount}
+                          onClick={handleSubmitSealedBid}
+                        >
+                          <Gavel className="w-4 h-4 mr-2" /> Submit
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  {myMaxBid !== undefined && (
+                    <p className="text-sm text-gray-500 mt-2">
+                      Your maximum bid is {formatCurrency(myMaxBid)}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Sealed Bid Reveal */}
+            {sealedReveal && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Sealed Bids: {sealedReveal.playerName}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {sealedReveal.bids.length > 0 ? (
+                    <div className="space-y-2">
+                      {sealedReveal.bids.map((bid) => (
+                        <div
+                          key={bid.teamId}
+                          className={cn(
+                            'flex items-center justify-between p-3 rounded-lg',
+                            bid.rank === 1
+                              ? 'bg-green-100 dark:bg-green-900/20 border border-green-500'
+                              : 'bg-gray-50 dark:bg-gray-800'
+                          )}
+                        >
+                          <div className="flex items-center space-x-3">
+                            <span className="text-sm text-gray-500 w-6">#{bid.rank}</span>
+                            <span className="font-medium">{bid.teamName}</span>
+                          </div>
+                          <span className="font-bold">{formatCurrency(bid.amount)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-gray-500 text-center py-4">No sealed bids were submitted</p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Bid Controls */}
-            {user?.role === 'team_owner' && currentPlayer && (
+            {!isSealed && user?.role === 'team_owner' && currentPlayer && (
               <Card>
                 <CardContent className="py-6">
                   <div className="flex items-center justify-between">
@@ -422,7 +1264,7 @@ export default function AuctionRoomPage() {
                           : 'bg-gray-300 cursor-not-allowed'
                       )}
                       disabled={!canBid || isBidding}
-                      onClick={handlePlaceBid}
+                      onClick={() => handlePlaceBid(nextBidAmount)}
                     >
                       {isBidding ? (
                         <span className="animate-pulse">Bidding...</span>
@@ -431,11 +1273,78 @@ export default function AuctionRoomPage() {
                       )}
                     </Button>
                   </div>
+                  {hasPassed ? (
+                    <p className="text-sm text-gray-500 mt-2">You passed on this player</p>
+                  ) : (
+                    myTeam &&
+                    bidHistory[0]?.team !== myTeam._id && (
+                      <Button variant="outline" size="sm" className="mt-4" onClick={handlePass}>
+                        <Hand className="w-4 h-4 mr-1" /> Pass
+                      </Button>
+                    )
+                  )}
+                  <div className="flex gap-2 mt-4">
+                    {quickBidAmounts.map((amount) => (
+                      <Button
+                        key={amount}
+                        variant="outline"
+                        size="sm"
+                        disabled={
+                          !canBid ||
+                          isBidding ||
+                          (myMaxBid !== undefined && amount > myMaxBid) ||
+                          (myTeam !== null && amount > myTeam.budget)
+                        }
+                        onClick={() => handlePlaceBid(amount)}
+                      >
+                        <Zap className="w-3 h-3 mr-1" /> {formatCurrency(amount)}
+                      </Button>
+                    ))}
+                  </div>
                   {!canBid && myTeam && myTeam.budget < nextBidAmount && (
                     <p className="text-red-500 text-sm mt-2">
                       Insufficient budget for this bid
                     </p>
                   )}
+                  {myTeam && myTeam.budget >= nextBidAmount && exceedsMaxBid && (
+                    <p className="text-red-500 text-sm mt-2">
+                      Your maximum bid is {formatCurrency(myMaxBid)} to keep budget for remaining squad slots
+                    </p>
+                  )}
+                  {myTeam && (
+                    <div className="flex items-center gap-2 mt-4 pt-4 border-t">
+                      <Bot className="w-4 h-4 text-gray-500" />
+                      {myProxyBid !== undefined ? (
+                        <>
+                          <span className="text-sm text-gray-600 dark:text-gray-400 flex-1">
+                            Auto-bidding up to {formatCurrency(myProxyBid)}
+                          </span>
+                          <Button variant="outline" size="sm" onClick={handleCancelProxyBid}>
+                            Cancel
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <Input
+                            type="number"
+                            min={nextBidAmount}
+                            placeholder="Auto-bid up to"
+                            value={proxyAmount}
+                            onChange={(e) => setProxyAmount(e.target.value)}
+                            className="max-w-xs"
+                          />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={!proxyAmount}
+                            onClick={handleSetProxyBid}
+                          >
+                            Set
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             )}
@@ -447,13 +1356,41 @@ export default function AuctionRoomPage() {
                   <CardTitle>Admin Controls</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="flex gap-4">
-                    <Button
-                      onClick={handleStartNextPlayer}
-                      className="gradient-cricket text-white"
-                    >
-                      <Play className="w-4 h-4 mr-2" /> Start Next Player
+                  <div className="flex flex-wrap gap-4">
+                    {!isDraft && (
+                      <Button
+                        onClick={handleStartNextPlayer}
+                        className="gradient-cricket text-white"
+                      >
+                        <Play className="w-4 h-4 mr-2" /> Start Next Player
+                      </Button>
+                    )}
+                    <Button onClick={handleTogglePause} variant="outline">
+                      {auction?.status === 'paused' ? (
+                        <><Play className="w-4 h-4 mr-2" /> Resume Auction</>
+                      ) : (
+                        <><Pause className="w-4 h-4 mr-2" /> Pause Auction</>
+                      )}
                     </Button>
+                    {!isDraft && (
+                      <>
+                        <Button onClick={handleToggleAutoRun} variant="outline">
+                          <Bot className="w-4 h-4 mr-2" /> {autoRun ? 'Stop Auto-run' : 'Auto-run'}
+                        </Button>
+                        <Button onClick={handleSkipPlayer} variant="outline">
+                          <SkipForward className="w-4 h-4 mr-2" /> Skip
+                        </Button>
+                        <Button onClick={handleWithdrawPlayer} variant="outline">
+                          <CornerUpLeft className="w-4 h-4 mr-2" /> Withdraw
+                        </Button>
+                        <Button onClick={handleUndoLastResult} variant="outline">
+                          <Undo2 className="w-4 h-4 mr-2" /> Undo Last
+                        </Button>
+                        <Button onClick={handleReauctionUnsold} variant="outline">
+                          <RotateCcw className="w-4 h-4 mr-2" /> Re-auction Unsold
+                        </Button>
+                      </>
+                    )}
                     <Button
                       onClick={handleEndAuction}
                       variant="destructive"
@@ -466,40 +1403,45 @@ export default function AuctionRoomPage() {
             )}
 
             {/* Bid History */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Bid History</CardTitle>
-              </CardHeader>
-              <CardContent>
-                {bidHistory.length > 0 ? (
-                  <div className="space-y-2 max-h-64 overflow-y-auto">
-                    {bidHistory.map((bid, index) => (
-                      <div
-                        key={index}
-                        className={cn(
-                          'flex items-center justify-between p-3 rounded-lg',
-                          index === 0
-                            ? 'bg-green-100 dark:bg-green-900/20 border border-green-500'
-                            : 'bg-gray-50 dark:bg-gray-800'
-                        )}
-                      >
-                        <div className="flex items-center space-x-3">
-                          <span className="font-medium">{bid.teamName}</span>
-                          {index === 0 && (
-                            <span className="px-2 py-0.5 bg-green-500 text-white text-xs rounded-full">
-                              Highest
-                            </span>
+            {!isDraft && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Bid History</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {bidHistory.length > 0 ? (
+                    <div className="space-y-2 max-h-64 overflow-y-auto">
+                      {bidHistory.map((bid, index) => (
+                        <div
+                          key={index}
+                          className={cn(
+                            'flex items-center justify-between p-3 rounded-lg',
+                            index === 0
+                              ? 'bg-green-100 dark:bg-green-900/20 border border-green-500'
+                              : 'bg-gray-50 dark:bg-gray-800'
                           )}
+                        >
+                          <div className="flex items-center space-x-3">
+                            <span className="font-medium">{bid.teamName}</span>
+                            {bid.isProxy && (
+                              <span className="text-xs text-gray-500">(auto)</span>
+                            )}
+                            {index === 0 && (
+                              <span className="px-2 py-0.5 bg-green-500 text-white text-xs rounded-full">
+                                Highest
+                              </span>
+                            )}
+                          </div>
+                          <span className="font-bold">{formatCurrency(bid.amount)}</span>
                         </div>
-                        <span className="font-bold">{formatCurrency(bid.amount)}</span>
-                      </div>
-                    ))}
-                  </div>
-                ) : (
-                  <p className="text-gray-500 text-center py-4">No bids yet</p>
-                )}
-              </CardContent>
-            </Card>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-gray-500 text-center py-4">No bids yet</p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Sidebar - Teams */}
@@ -546,6 +1488,14 @@ export default function AuctionRoomPage() {
                             {team.players?.length || 0}
                           </span>
                         </div>
+                        {maxBids[team._id] !== undefined && (
+                          <div className="col-span-2">
+                            <span className="text-gray-500">Max Bid:</span>
+                            <span className="ml-1 font-medium">
+                              {formatCurrency(maxBids[team._id])}
+                            </span>
+                          </div>
+                        )}
                       </div>
                     </div>
                   ))}
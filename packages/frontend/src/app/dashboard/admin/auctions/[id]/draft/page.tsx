@@ -0,0 +1,209 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/auth-store';
+import api from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { ArrowDown, ArrowUp, Loader2, Save } from 'lucide-react';
+
+type DraftOrderType = 'snake' | 'linear';
+
+interface DraftTeam {
+  _id: string;
+  name: string;
+  shortName: string;
+}
+
+const ORDER_TYPES: { value: DraftOrderType; name: string; description: string }[] = [
+  { value: 'snake', name: 'Snake', description: 'Pick order reverses every round' },
+  { value: 'linear', name: 'Linear', description: 'Same pick order every round' },
+];
+
+export default function DraftOrderPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { accessToken } = useAuthStore();
+  const auctionId = params.id as string;
+
+  const [teams, setTeams] = useState<DraftTeam[]>([]);
+  const [orderType, setOrderType] = useState<DraftOrderType>('snake');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchDraft = async () => {
+      if (!accessToken) return;
+
+      try {
+        const response: any = await api.getDraftBoard(auctionId, accessToken);
+        setTeams(response.data?.draft?.order || []);
+        setOrderType(response.data?.draft?.orderType || 'snake');
+      } catch (error: any) {
+        toast({
+          variant: 'destructive',
+          title: 'Failed to load draft order',
+          description: error.message,
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchDraft();
+  }, [accessToken, auctionId, toast]);
+
+  const moveTeam = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= teams.length) return;
+
+    setTeams((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!accessToken) return;
+
+    setIsSaving(true);
+    try {
+      await api.setDraftOrder(
+        auctionId,
+        { teamIds: teams.map((team) => team._id), orderType },
+        accessToken
+      );
+      toast({
+        title: 'Draft order saved',
+        description: 'Teams will pick in this order.',
+      });
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to save draft order',
+        description: error.message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-green-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Draft Order</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Set the first-round pick order before the draft starts
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => router.push('/dashboard/admin')}>
+            Back
+          </Button>
+          <Button
+            className="gradient-cricket text-white"
+            onClick={handleSave}
+            disabled={isSaving || teams.length === 0}
+          >
+            {isSaving ? (
+              <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Saving...</>
+            ) : (
+              <><Save className="w-4 h-4 mr-2" /> Save Order</>
+            )}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Pick order */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Round 1</CardTitle>
+            <CardDescription>Teams missing from a saved order pick last</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {teams.length > 0 ? (
+              <div className="space-y-2">
+                {teams.map((team, index) => (
+                  <div
+                    key={team._id}
+                    className="flex items-center justify-between p-2 rounded-lg bg-gray-50 dark:bg-gray-800"
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-gray-400 w-6">{index + 1}</span>
+                      <span className="font-medium">{team.name}</span>
+                      <span className="text-sm text-gray-500">{team.shortName}</span>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveTeam(index, -1)}
+                        disabled={index === 0}
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveTeam(index, 1)}
+                        disabled={index === teams.length - 1}
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 text-center py-8">
+                No teams have joined this auction yet
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Order type */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Order Type</CardTitle>
+            <CardDescription>How the order carries into later rounds</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {ORDER_TYPES.map((type) => (
+              <button
+                key={type.value}
+                type="button"
+                onClick={() => setOrderType(type.value)}
+                className={cn(
+                  'w-full flex flex-col items-start p-4 border rounded-lg transition-all',
+                  orderType === type.value
+                    ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
+                    : 'border-gray-200 hover:border-gray-300 dark:border-gray-700'
+                )}
+              >
+                <span className="font-medium">{type.name}</span>
+                <span className="text-sm text-gray-500">{type.description}</span>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/auth-store';
+import api from '@/lib/api';
+import { formatCurrency, cn } from '@/lib/utils';
+import { GripVertical, Loader2, Plus, Save, Shuffle, Trash2 } from 'lucide-react';
+
+interface SetPlayer {
+  _id: string;
+  user: { name: string };
+  playerRole: string;
+  basePrice: number;
+  playerSet?: string;
+}
+
+interface PlayerSet {
+  key: string;
+  name: string;
+  randomiseOrder: boolean;
+  players: SetPlayer[];
+}
+
+type DragItem = { type: 'player'; playerId: string } | { type: 'set'; key: string };
+
+// Drop target for players that belong to no set
+const UNASSIGNED = 'unassigned';
+
+export default function PlayerSetsPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { accessToken } = useAuthStore();
+  const auctionId = params.id as string;
+
+  const [sets, setSets] = useState<PlayerSet[]>([]);
+  const [unassigned, setUnassigned] = useState<SetPlayer[]>([]);
+  const [newSetName, setNewSetName] = useState('');
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSets = async () => {
+      if (!accessToken) return;
+
+      try {
+        const response: any = await api.getPlayerSets(auctionId, accessToken);
+        const queue: SetPlayer[] = response.data?.queue || [];
+
+        // The queue is already in nomination order, so grouping keeps each set's order
+        setSets(
+          (response.data?.sets || []).map((set: any) => ({
+            key: set._id,
+            name: set.name,
+            randomiseOrder: set.randomiseOrder,
+            players: queue.filter((p) => p.playerSet === set._id),
+          }))
+        );
+        const setIds = new Set((response.data?.sets || []).map((set: any) => set._id));
+        setUnassigned(queue.filter((p) => !p.playerSet || !setIds.has(p.playerSet)));
+      } catch (error: any) {
+        toast({
+          variant: 'destructive',
+          title: 'Failed to load player sets',
+          description: error.message,
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSets();
+  }, [accessToken, auctionId, toast]);
+
+  const handleAddSet = () => {
+    const name = newSetName.trim();
+    if (!name) return;
+    if (sets.some((set) => set.name.toLowerCase() === name.toLowerCase())) {
+      toast({ variant: 'destructive', title: 'A set with this name already exists' });
+      return;
+    }
+    setSets((prev) => [
+      ...prev,
+      { key: `new-${Date.now()}`, name, randomiseOrder: false, players: [] },
+    ]);
+    setNewSetName('');
+  };
+
+  const handleRemoveSet = (key: string) => {
+    const removed = sets.find((set) => set.key === key);
+    setSets((prev) => prev.filter((set) => set.key !== key));
+    if (removed) {
+      setUnassigned((prev) => [...prev, ...removed.players]);
+    }
+  };
+
+  const updateSet = (key: string, changes: Partial<PlayerSet>) => {
+    setSets((prev) => prev.map((set) => (set.key === key ? { ...set, ...changes } : set)));
+  };
+
+  /**
+   * Move the dragged player into a set (or the unassigned pool), before
+   * `beforePlayerId` if given or at the end otherwise
+   */
+  const movePlayer = (playerId: string, target: string, beforePlayerId?: string) => {
+    const player =
+      unassigned.find((p) => p._id === playerId) ||
+      sets.flatMap((set) => set.players).find((p) => p._id === playerId);
+    if (!player || playerId === beforePlayerId) return;
+
+    const insert = (players: SetPlayer[]): SetPlayer[] => {
+      const rest = players.filter((p) => p._id !== playerId);
+      const index = beforePlayerId ? rest.findIndex((p) => p._id === beforePlayerId) : -1;
+      return index === -1
+        ? [...rest, player]
+        : [...rest.slice(0, index), player, ...rest.slice(index)];
+    };
+    const remove = (players: SetPlayer[]) => players.filter((p) => p._id !== playerId);
+
+    setSets((prev) =>
+      prev.map((set) => ({
+        ...set,
+        players: set.key === target ? insert(set.players) : remove(set.players),
+      }))
+    );
+    setUnassigned((prev) => (target === UNASSIGNED ? insert(prev) : remove(prev)));
+  };
+
+  const moveSet = (key: string, beforeKey: string) => {
+    if (key === beforeKey) return;
+    setSets((prev) => {
+      const moving = prev.find((set) => set.key === key);
+      if (!moving) return prev;
+      const rest = prev.filter((set) => set.key !== key);
+      const index = rest.findIndex((set) => set.key === beforeKey);
+      return [...rest.slice(0, index), moving, ...rest.slice(index)];
+    });
+  };
+
+  const handleDrop = (target: string, beforePlayerId?: string) => {
+    if (dragItem?.type === 'player') {
+      movePlayer(dragItem.playerId, target, beforePlayerId);
+    } else if (dragItem?.type === 'set' && target !== UNASSIGNED) {
+      moveSet(dragItem.key, target);
+    }
+    setDragItem(null);
+  };
+
+  const handleSave = async () => {
+    if (!accessToken) return;
+
+    setIsSaving(true);
+    try {
+      await api.updatePlayerSets(
+        auctionId,
+        sets.map((set) => ({
+          name: set.name,
+          randomiseOrder: set.randomiseOrder,
+          playerIds: set.players.map((p) => p._id),
+        })),
+        accessToken
+      );
+      toast({
+        title: 'Player sets saved',
+        description: 'Players will be nominated in this order.',
+      });
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to save player sets',
+        description: error.message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderPlayer = (player: SetPlayer, target: string, position: number) => (
+    <div
+      key={player._id}
+      draggable
+      onDragStart={(e) => {
+        e.stopPropagation();
+        setDragItem({ type: 'player', playerId: player._id });
+      }}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.stopPropagation();
+        handleDrop(target, player._id);
+      }}
+      className="flex items-center justify-between p-2 rounded-lg bg-gray-50 dark:bg-gray-800 cursor-move"
+    >
+      <div className="flex items-center gap-2">
+        <GripVertical className="w-4 h-4 text-gray-400" />
+        <span className="text-xs text-gray-400 w-6">{position + 1}</span>
+        <span className="font-medium">{player.user?.name || 'Unknown Player'}</span>
+        <span className="text-sm text-gray-500 capitalize">{player.playerRole}</span>
+      </div>
+      <span className="text-sm text-gray-500">{formatCurrency(player.basePrice)}</span>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-green-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Player Sets</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Drag sets and players to set the nomination order
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => router.push('/dashboard/admin')}>
+            Back
+          </Button>
+          <Button
+            className="gradient-cricket text-white"
+            onClick={handleSave}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Saving...</>
+            ) : (
+              <><Save className="w-4 h-4 mr-2" /> Save Order</>
+            )}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Sets */}
+        <div className="lg:col-span-2 space-y-4">
+          <div className="flex gap-2">
+            <Input
+              placeholder="e.g., Marquee"
+              value={newSetName}
+              onChange={(e) => setNewSetName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddSet()}
+            />
+            <Button variant="outline" onClick={handleAddSet}>
+              <Plus className="w-4 h-4 mr-1" /> Add Set
+            </Button>
+          </div>
+
+          {sets.map((set, index) => (
+            <Card
+              key={set.key}
+              draggable
+              onDragStart={() => setDragItem({ type: 'set', key: set.key })}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => handleDrop(set.key)}
+              className={cn(dragItem?.type === 'set' && dragItem.key === set.key && 'opacity-50')}
+            >
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2 flex-1">
+                    <GripVertical className="w-5 h-5 text-gray-400 cursor-move" />
+                    <span className="text-sm text-gray-500">{index + 1}.</span>
+                    <Input
+                      value={set.name}
+                      onChange={(e) => updateSet(set.key, { name: e.target.value })}
+                      className="font-semibold"
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                    <input
+                      type="checkbox"
+                      checked={set.randomiseOrder}
+                      onChange={(e) => updateSet(set.key, { randomiseOrder: e.target.checked })}
+                    />
+                    <Shuffle className="w-4 h-4" /> Randomise
+                  </label>
+                  <Button variant="ghost" size="sm" onClick={() => handleRemoveSet(set.key)}>
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {set.players.length > 0 ? (
+                  <div className="space-y-2">
+                    {set.players.map((player, position) => renderPlayer(player, set.key, position))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500 text-center py-4">
+                    Drag players here
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Unassigned players */}
+        <Card onDragOver={(e) => e.preventDefault()} onDrop={() => handleDrop(UNASSIGNED)}>
+          <CardHeader>
+            <CardTitle>Unassigned</CardTitle>
+            <CardDescription>Nominated after all sets, in registration order</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {unassigned.length > 0 ? (
+              <div className="space-y-2 max-h-[600px] overflow-y-auto">
+                {unassigned.map((player, position) => renderPlayer(player, UNASSIGNED, position))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 text-center py-4">
+                Every pending player is in a set
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
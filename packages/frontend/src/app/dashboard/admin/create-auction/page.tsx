@@ -11,7 +11,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { useAuthStore } from '@/store/auth-store';
-import { Loader2, Plus } from 'lucide-react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
 import { CricketIcon, FootballIcon, BasketballIcon, KabaddiIcon, getSportIcon } from '@/components/icons/sports-icons';
 import api from '@/lib/api';
 
@@ -19,6 +19,8 @@ const createAuctionSchema = z.object({
   name: z.string().min(3, 'Auction name must be at least 3 characters'),
   description: z.string().optional(),
   sportType: z.enum(['cricket', 'football', 'basketball', 'kabaddi']),
+  format: z.enum(['open', 'sealed', 'draft']),
+  draftOrderType: z.enum(['snake', 'linear']),
   teamBudget: z.number().min(100000, 'Budget must be at least ₹1,00,000'),
   minBidIncrement: z.number().min(10000, 'Min increment must be at least ₹10,000'),
   maxTeams: z.number().min(2, 'At least 2 teams required').max(20, 'Maximum 20 teams allowed'),
@@ -46,12 +48,27 @@ const defaultBasePriceTiers = [
   { tier: 'Base', price: 200000 },
 ];
 
+interface SoftCloseRules {
+  windowSeconds: number;
+  extensionSeconds: number;
+  maxExtensionSeconds: number;
+}
+
+const defaultSoftClose: SoftCloseRules = {
+  windowSeconds: 10,
+  extensionSeconds: 10,
+  maxExtensionSeconds: 60,
+};
+
 export default function CreateAuctionPage() {
   const router = useRouter();
   const { toast } = useToast();
   const { accessToken } = useAuthStore();
   const [isLoading, setIsLoading] = useState(false);
   const [basePriceTiers, setBasePriceTiers] = useState(defaultBasePriceTiers);
+  const [incrementTiers, setIncrementTiers] = useState<{ from: number; increment: number }[]>([]);
+  const [softClose, setSoftClose] = useState<SoftCloseRules | null>(null);
+  const [callPhases, setCallPhases] = useState({ goingOnceSeconds: 10, goingTwiceSeconds: 5 });
 
   const {
     register,
@@ -62,6 +79,8 @@ export default function CreateAuctionPage() {
     resolver: zodResolver(createAuctionSchema),
     defaultValues: {
       sportType: 'cricket',
+      format: 'open',
+      draftOrderType: 'snake',
       teamBudget: 10000000, // 1 Crore
       minBidIncrement: 100000, // 1 Lakh
       maxTeams: 8,
@@ -71,6 +90,19 @@ export default function CreateAuctionPage() {
   });
 
   const sportType = watch('sportType');
+  const format = watch('format');
+  const draftOrderType = watch('draftOrderType');
+
+  const formatConfig: Record<string, { name: string; description: string }> = {
+    open: { name: 'Open Bidding', description: 'Teams raise bids live until the timer runs out' },
+    sealed: { name: 'Sealed Bids', description: 'One hidden bid per team, revealed when the lot closes' },
+    draft: { name: 'Draft', description: 'Teams take turns picking players, no budget involved' },
+  };
+
+  const draftOrderConfig: Record<string, { name: string; description: string }> = {
+    snake: { name: 'Snake', description: 'Pick order reverses every round' },
+    linear: { name: 'Linear', description: 'Same pick order every round' },
+  };
 
   const sportConfig: Record<string, { icon: React.ReactNode; name: string; playerRoles: string[] }> = {
     cricket: { icon: <CricketIcon className="w-6 h-6" />, name: 'Cricket', playerRoles: ['Batsman', 'Bowler', 'All-rounder', 'Wicket-keeper'] },
@@ -85,9 +117,37 @@ export default function CreateAuctionPage() {
     setBasePriceTiers(newTiers);
   };
 
+  const addIncrementTier = () => {
+    const last = incrementTiers[incrementTiers.length - 1];
+    setIncrementTiers([
+      ...incrementTiers,
+      last
+        ? { from: last.from * 2, increment: last.increment * 2 }
+        : { from: 10000000, increment: 1000000 },
+    ]);
+  };
+
+  const updateIncrementTier = (index: number, field: 'from' | 'increment', value: number) => {
+    setIncrementTiers(
+      incrementTiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier))
+    );
+  };
+
   const onSubmit = async (data: CreateAuctionForm) => {
     if (!accessToken) return;
 
+    const unordered = incrementTiers.some(
+      (tier, index) => index > 0 && tier.from <= incrementTiers[index - 1].from
+    );
+    if (unordered) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid increment ladder',
+        description: 'Each tier must start above the previous one.',
+      });
+      return;
+    }
+
     setIsLoading(true);
     try {
       // Map frontend field names to backend field names
@@ -101,9 +161,14 @@ export default function CreateAuctionPage() {
         name: data.name,
         description: data.description,
         sportType: data.sportType,
+        format: data.format,
+        ...(data.format === 'draft' && { draftOrderType: data.draftOrderType }),
         password: data.password,
         teamBudget: data.teamBudget,
         bidIncrementAmount: data.minBidIncrement,
+        bidIncrementTiers: incrementTiers,
+        ...(data.format === 'open' && softClose && { softClose }),
+        ...(data.format !== 'draft' && callPhases),
         maxTeams: data.maxTeams,
         maxPlayersPerTeam: data.playersPerTeam.max,
         basePriceTiers: transformedTiers,
@@ -197,6 +262,58 @@ export default function CreateAuctionPage() {
               </div>
             </div>
 
+            <div>
+              <Label>Auction Format *</Label>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-2">
+                {Object.entries(formatConfig).map(([key, config]) => (
+                  <label
+                    key={key}
+                    className={`flex flex-col p-4 border rounded-lg cursor-pointer transition-all ${
+                      format === key
+                        ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
+                        : 'border-gray-200 hover:border-gray-300 dark:border-gray-700'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      value={key}
+                      {...register('format')}
+                      className="sr-only"
+                    />
+                    <span className="font-medium">{config.name}</span>
+                    <span className="text-sm text-gray-500">{config.description}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {format === 'draft' && (
+              <div>
+                <Label>Draft Order *</Label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
+                  {Object.entries(draftOrderConfig).map(([key, config]) => (
+                    <label
+                      key={key}
+                      className={`flex flex-col p-4 border rounded-lg cursor-pointer transition-all ${
+                        draftOrderType === key
+                          ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
+                          : 'border-gray-200 hover:border-gray-300 dark:border-gray-700'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        value={key}
+                        {...register('draftOrderType')}
+                        className="sr-only"
+                      />
+                      <span className="font-medium">{config.name}</span>
+                      <span className="text-sm text-gray-500">{config.description}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <Label htmlFor="scheduledDate">Scheduled Date *</Label>
@@ -331,6 +448,147 @@ export default function CreateAuctionPage() {
           </CardContent>
         </Card>
 
+        {/* Bid Increment Ladder */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Bid Increment Ladder</CardTitle>
+            <CardDescription>
+              Raise the increment as prices climb. Below the first tier the min bid increment applies.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {incrementTiers.map((tier, index) => (
+                <div key={index} className="flex items-center gap-4">
+                  <div className="flex-1">
+                    <Label>From bid of (₹)</Label>
+                    <Input
+                      type="number"
+                      value={tier.from}
+                      onChange={(e) => updateIncrementTier(index, 'from', parseInt(e.target.value) || 0)}
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <Label>Increment (₹)</Label>
+                    <Input
+                      type="number"
+                      value={tier.increment}
+                      onChange={(e) => updateIncrementTier(index, 'increment', parseInt(e.target.value) || 0)}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="mt-6"
+                    onClick={() => setIncrementTiers(incrementTiers.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" onClick={addIncrementTier}>
+                <Plus className="w-4 h-4 mr-1" /> Add Tier
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Soft Close */}
+        {format === 'open' && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Soft Close</CardTitle>
+              <CardDescription>
+                Stop last-second sniping: late bids extend the lot instead of restarting the full timer
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={softClose !== null}
+                    onChange={(e) => setSoftClose(e.target.checked ? defaultSoftClose : null)}
+                  />
+                  Enable soft close
+                </label>
+                {softClose && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <Label>Final seconds</Label>
+                      <Input
+                        type="number"
+                        value={softClose.windowSeconds}
+                        onChange={(e) =>
+                          setSoftClose({ ...softClose, windowSeconds: parseInt(e.target.value) || 0 })
+                        }
+                      />
+                      <p className="text-xs text-gray-500 mt-1">Bids this late extend the lot</p>
+                    </div>
+                    <div>
+                      <Label>Extend by (seconds)</Label>
+                      <Input
+                        type="number"
+                        value={softClose.extensionSeconds}
+                        onChange={(e) =>
+                          setSoftClose({ ...softClose, extensionSeconds: parseInt(e.target.value) || 0 })
+                        }
+                      />
+                    </div>
+                    <div>
+                      <Label>Max extension per lot (seconds)</Label>
+                      <Input
+                        type="number"
+                        value={softClose.maxExtensionSeconds}
+                        onChange={(e) =>
+                          setSoftClose({ ...softClose, maxExtensionSeconds: parseInt(e.target.value) || 0 })
+                        }
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Auctioneer Calls */}
+        {format !== 'draft' && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Auctioneer Calls</CardTitle>
+              <CardDescription>
+                When the room hears &quot;going once&quot; and &quot;going twice&quot; before the hammer
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label>Going once at (seconds left)</Label>
+                  <Input
+                    type="number"
+                    value={callPhases.goingOnceSeconds}
+                    onChange={(e) =>
+                      setCallPhases({ ...callPhases, goingOnceSeconds: parseInt(e.target.value) || 0 })
+                    }
+                  />
+                </div>
+                <div>
+                  <Label>Going twice at (seconds left)</Label>
+                  <Input
+                    type="number"
+                    value={callPhases.goingTwiceSeconds}
+                    onChange={(e) =>
+                      setCallPhases({ ...callPhases, goingTwiceSeconds: parseInt(e.target.value) || 0 })
+                    }
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Submit */}
         <div className="flex justify-end gap-4">
           <Button
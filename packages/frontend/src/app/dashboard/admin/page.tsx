@@ -19,6 +19,8 @@ import {
   UserRound,
   Play,
   Settings,
+  Layers,
+  ListOrdered,
   Loader2
 } from 'lucide-react';
 import { CricketIcon } from '@/components/icons/sports-icons';
@@ -205,6 +207,20 @@ export default function AdminDashboardPage() {
                           </Button>
                         </Link>
                       )}
+                      {auction.format === 'draft' && auction.status === 'upcoming' && (
+                        <Link href={`/dashboard/admin/auctions/${auction._id}/draft`}>
+                          <Button size="sm" variant="outline">
+                            <ListOrdered className="w-4 h-4 mr-1" /> Draft Order
+                          </Button>
+                        </Link>
+                      )}
+                      {auction.format !== 'draft' && auction.status !== 'ended' && (
+                        <Link href={`/dashboard/admin/auctions/${auction._id}/sets`}>
+                          <Button size="sm" variant="outline">
+                            <Layers className="w-4 h-4 mr-1" /> Sets
+                          </Button>
+                        </Link>
+                      )}
                       <Link href={`/dashboard/admin/auctions/${auction._id}`}>
                         <Button size="sm" variant="outline">
                           <Settings className="w-4 h-4 mr-1" /> Manage
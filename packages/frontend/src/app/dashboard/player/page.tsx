@@ -231,6 +231,7 @@ function RegistrationStatusBadge({ status }: { status: string }) {
     rejected: { bg: 'bg-red-100', text: 'text-red-700', label: 'Rejected' },
     sold: { bg: 'bg-green-100', text: 'text-green-700', label: 'Sold' },
     unsold: { bg: 'bg-gray-100', text: 'text-gray-700', label: 'Unsold' },
+    retained: { bg: 'bg-purple-100', text: 'text-purple-700', label: 'Retained' },
   };
 
   const config = statusConfig[status] || statusConfig.pending;
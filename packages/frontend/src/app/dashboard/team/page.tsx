@@ -7,7 +7,7 @@ import { Button } from '@/components/ui/button';
 import { useAuthStore } from '@/store/auth-store';
 import api from '@/lib/api';
 import { formatCurrency, formatDate, getAuctionStatusColor } from '@/lib/utils';
-import { Trophy, Users, Wallet, Radio, FileText } from 'lucide-react';
+import { Trophy, Users, Wallet, Radio, FileText, Star } from 'lucide-react';
 
 export default function TeamDashboardPage() {
   const { accessToken } = useAuthStore();
@@ -187,6 +187,11 @@ export default function TeamDashboardPage() {
                         View Details
                       </Button>
                     </Link>
+                    <Link href={`/dashboard/team/teams/${team._id}/wishlist`} className="flex-1">
+                      <Button variant="outline" className="w-full" size="sm">
+                        <Star className="w-4 h-4 mr-1" /> Wishlist
+                      </Button>
+                    </Link>
                     {team.auction?.status === 'live' && (
                       <Link href={`/auction/${team.auction._id}`} className="flex-1">
                         <Button className="w-full bg-green-600 hover:bg-green-700 text-white" size="sm">
@@ -0,0 +1,254 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useAuthStore } from '@/store/auth-store';
+import api from '@/lib/api';
+import { formatCurrency, cn } from '@/lib/utils';
+import { Plus, Star, Trash2 } from 'lucide-react';
+
+type Priority = 'high' | 'medium' | 'low';
+
+interface AuctionPlayer {
+  _id: string;
+  user: { name: string };
+  playerRole: string;
+  basePrice: number;
+  status: string;
+}
+
+interface WishlistEntry {
+  player: AuctionPlayer;
+  priority: Priority;
+  targetPrice?: number;
+  notes?: string;
+}
+
+const PRIORITIES: { value: Priority; label: string; className: string }[] = [
+  { value: 'high', label: 'High', className: 'bg-red-100 text-red-700 border-red-300' },
+  { value: 'medium', label: 'Medium', className: 'bg-yellow-100 text-yellow-700 border-yellow-300' },
+  { value: 'low', label: 'Low', className: 'bg-gray-100 text-gray-700 border-gray-300' },
+];
+
+export default function TeamWishlistPage() {
+  const params = useParams();
+  const router = useRouter();
+  const { toast } = useToast();
+  const { accessToken } = useAuthStore();
+  const teamId = params.id as string;
+
+  const [team, setTeam] = useState<any>(null);
+  const [players, setPlayers] = useState<AuctionPlayer[]>([]);
+  const [wishlist, setWishlist] = useState<WishlistEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!accessToken) return;
+
+      try {
+        const teamResponse: any = await api.getTeam(teamId, accessToken);
+        const teamData = teamResponse.data?.team;
+        setTeam(teamData);
+
+        const [playersResponse, wishlistResponse] = await Promise.all([
+          api.getPlayersByAuction(teamData.auction._id, accessToken, { status: 'pending' }),
+          api.getWishlist(teamId, accessToken),
+        ]) as [any, any];
+
+        setPlayers(playersResponse.data?.players || []);
+        setWishlist(wishlistResponse.data?.wishlist || []);
+      } catch (error: any) {
+        toast({
+          variant: 'destructive',
+          title: 'Failed to load wishlist',
+          description: error.message,
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [accessToken, teamId, toast]);
+
+  const saveEntry = async (player: AuctionPlayer, changes: Partial<WishlistEntry>) => {
+    if (!accessToken) return;
+
+    const current = wishlist.find((e) => e.player._id === player._id);
+    const entry: WishlistEntry = { priority: 'medium', ...current, ...changes, player };
+
+    try {
+      await api.saveWishlistEntry(
+        teamId,
+        player._id,
+        { priority: entry.priority, targetPrice: entry.targetPrice ?? null, notes: entry.notes },
+        accessToken
+      );
+      setWishlist((prev) =>
+        current ? prev.map((e) => (e.player._id === player._id ? entry : e)) : [...prev, entry]
+      );
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to update wishlist',
+        description: error.message,
+      });
+    }
+  };
+
+  const removeEntry = async (playerId: string) => {
+    if (!accessToken) return;
+
+    try {
+      await api.removeWishlistEntry(teamId, playerId, accessToken);
+      setWishlist((prev) => prev.filter((e) => e.player._id !== playerId));
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to update wishlist',
+        description: error.message,
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-green-500"></div>
+      </div>
+    );
+  }
+
+  const shortlisted = new Set(wishlist.map((e) => e.player._id));
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Wishlist</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            {team?.name} &middot; {team?.auction?.name}. Only your team can see this list.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => router.push('/dashboard/team')}>
+          Back
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Shortlist */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Shortlist</CardTitle>
+            <CardDescription>
+              Highlighted in the auction room when the player comes on the block
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {wishlist.length > 0 ? (
+              <div className="space-y-3">
+                {wishlist.map((entry) => (
+                  <div
+                    key={entry.player._id}
+                    className="p-4 rounded-lg border bg-gray-50 dark:bg-gray-800 space-y-3"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Star className="w-4 h-4 text-yellow-500" />
+                        <span className="font-medium">{entry.player.user?.name || 'Unknown Player'}</span>
+                        <span className="text-sm text-gray-500 capitalize">
+                          {entry.player.playerRole}
+                        </span>
+                        <span className="text-sm text-gray-500">
+                          Base {formatCurrency(entry.player.basePrice)}
+                        </span>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => removeEntry(entry.player._id)}>
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {PRIORITIES.map((priority) => (
+                        <button
+                          key={priority.value}
+                          type="button"
+                          onClick={() => saveEntry(entry.player, { priority: priority.value })}
+                          className={cn(
+                            'px-3 py-1 rounded-full text-xs font-medium border',
+                            entry.priority === priority.value
+                              ? priority.className
+                              : 'border-transparent text-gray-500'
+                          )}
+                        >
+                          {priority.label}
+                        </button>
+                      ))}
+                      <Input
+                        type="number"
+                        min={0}
+                        placeholder="Target price"
+                        defaultValue={entry.targetPrice ?? ''}
+                        onBlur={(e) =>
+                          saveEntry(entry.player, {
+                            targetPrice: e.target.value ? Number(e.target.value) : undefined,
+                          })
+                        }
+                        className="max-w-[160px]"
+                      />
+                      <Input
+                        placeholder="Notes"
+                        defaultValue={entry.notes ?? ''}
+                        onBlur={(e) => saveEntry(entry.player, { notes: e.target.value })}
+                        className="flex-1 min-w-[160px]"
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 text-center py-8">
+                Add players from the pool to start your shortlist
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Player pool */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Player Pool</CardTitle>
+            <CardDescription>Players still to be auctioned</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2 max-h-[600px] overflow-y-auto">
+              {players
+                .filter((player) => !shortlisted.has(player._id))
+                .map((player) => (
+                  <div
+                    key={player._id}
+                    className="flex items-center justify-between p-2 rounded-lg bg-gray-50 dark:bg-gray-800"
+                  >
+                    <div>
+                      <p className="font-medium">{player.user?.name || 'Unknown Player'}</p>
+                      <p className="text-xs text-gray-500 capitalize">
+                        {player.playerRole} &middot; {formatCurrency(player.basePrice)}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => saveEntry(player, {})}>
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
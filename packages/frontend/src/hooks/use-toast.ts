@@ -2,6 +2,7 @@
 
 import * as React from 'react';
 import type { ToastActionElement, ToastProps } from '@/components/ui/toast';
+import { AppError, describeError } from '@/lib/errors';
 
 const TOAST_LIMIT = 5;
 const TOAST_REMOVE_DELAY = 5000;
@@ -164,6 +165,13 @@ function toast({ ...props }: Toast) {
   };
 }
 
+/**
+ * Show an error, with a message tailored to its code
+ */
+function toastError(error: Partial<AppError>, fallbackTitle?: string) {
+  return toast({ variant: 'destructive', ...describeError(error, fallbackTitle) });
+}
+
 function useToast() {
   const [state, setState] = React.useState<State>(memoryState);
 
@@ -180,8 +188,9 @@ function useToast() {
   return {
     ...state,
     toast,
+    toastError,
     dismiss: (toastId?: string) => dispatch({ type: 'DISMISS_TOAST', toastId }),
   };
 }
 
-export { useToast, toast };
+export { useToast, toast, toastError };
@@ -1,3 +1,5 @@
+import { ApiRequestError } from './errors';
+
 // API base URL
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
 
@@ -32,7 +34,7 @@ class ApiClient {
     const data = await response.json();
 
     if (!response.ok) {
-      throw new Error(data.message || 'An error occurred');
+      throw new ApiRequestError(response.status, data);
     }
 
     return data;
@@ -124,6 +126,100 @@ class ApiClient {
     });
   }
 
+  async getPlayerSets(auctionId: string, token: string) {
+    return this.request(`/auctions/${auctionId}/sets`, { token });
+  }
+
+  async updatePlayerSets(
+    auctionId: string,
+    sets: { name: string; randomiseOrder: boolean; playerIds: string[] }[],
+    token: string
+  ) {
+    return this.request(`/auctions/${auctionId}/sets`, {
+      method: 'PUT',
+      body: JSON.stringify({ sets }),
+      token,
+    });
+  }
+
+  async openAcceleratedRound(
+    auctionId: string,
+    data: { playerIds?: string[]; basePrice?: number; bidTimerSeconds?: number },
+    token: string
+  ) {
+    return this.request(`/auctions/${auctionId}/rounds`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+      token,
+    });
+  }
+
+  async withdrawPlayer(auctionId: string, token: string) {
+    return this.request(`/auctions/${auctionId}/withdraw-player`, {
+      method: 'POST',
+      token,
+    });
+  }
+
+  async getCorrections(auctionId: string, token: string) {
+    return this.request(`/auctions/${auctionId}/corrections`, { token });
+  }
+
+  async undoLastResult(auctionId: string, reason: string, token: string) {
+    return this.request(`/auctions/${auctionId}/corrections/undo`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+      token,
+    });
+  }
+
+  async reassignSale(
+    auctionId: string,
+    data: { playerId: string; teamId: string; reason: string; price?: number },
+    token: string
+  ) {
+    return this.request(`/auctions/${auctionId}/corrections/reassign`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+      token,
+    });
+  }
+
+  async getDraftBoard(auctionId: string, token: string) {
+    return this.request(`/auctions/${auctionId}/draft`, { token });
+  }
+
+  async setDraftOrder(
+    auctionId: string,
+    data: { teamIds: string[]; orderType?: 'snake' | 'linear' },
+    token: string
+  ) {
+    return this.request(`/auctions/${auctionId}/draft-order`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+      token,
+    });
+  }
+
+  async retainPlayer(
+    auctionId: string,
+    data: { teamId: string; playerId: string; price: number },
+    token: string
+  ) {
+    return this.request(`/auctions/${auctionId}/retentions`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+      token,
+    });
+  }
+
+  async releaseRetention(auctionId: string, playerId: string, token: string) {
+    return this.request(`/auctions/${auctionId}/retentions/${playerId}`, {
+      method: 'DELETE',
+      token,
+    });
+  }
+
   async endAuction(auctionId: string, token: string) {
     return this.request(`/auctions/${auctionId}/end`, {
       method: 'POST',
@@ -160,6 +256,30 @@ class ApiClient {
     return this.request(`/teams/${teamId}`, { token });
   }
 
+  async getWishlist(teamId: string, token: string) {
+    return this.request(`/teams/${teamId}/wishlist`, { token });
+  }
+
+  async saveWishlistEntry(
+    teamId: string,
+    playerId: string,
+    data: { priority: string; targetPrice?: number | null; notes?: string },
+    token: string
+  ) {
+    return this.request(`/teams/${teamId}/wishlist/${playerId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+      token,
+    });
+  }
+
+  async removeWishlistEntry(teamId: string, playerId: string, token: string) {
+    return this.request(`/teams/${teamId}/wishlist/${playerId}`, {
+      method: 'DELETE',
+      token,
+    });
+  }
+
   // Player endpoints
   async registerPlayer(data: any, auctionId: string, token: string) {
     return this.request(`/players/register`, {
@@ -202,6 +322,28 @@ class ApiClient {
     });
   }
 
+  async setProxyBid(
+    data: { auctionId: string; playerId: string; maxAmount: number },
+    token: string
+  ) {
+    return this.request('/bids/proxy', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+      token,
+    });
+  }
+
+  async cancelProxyBid(auctionId: string, playerId: string, token: string) {
+    return this.request(`/bids/proxy/${playerId}?auctionId=${auctionId}`, {
+      method: 'DELETE',
+      token,
+    });
+  }
+
+  async getMyProxyBids(auctionId: string, token: string) {
+    return this.request(`/bids/proxy/auction/${auctionId}`, { token });
+  }
+
   async getPlayerBids(playerId: string, token: string) {
     return this.request(`/bids/player/${playerId}`, { token });
   }
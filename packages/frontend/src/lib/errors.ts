@@ -0,0 +1,96 @@
+import { ErrorCode as ServerErrorCode, IErrorPayload } from '@bidzr/shared';
+import { formatCurrency } from './utils';
+
+// Error codes sent by the API and sockets
+export const ERROR_CODES = {
+  ...ServerErrorCode,
+
+  // Client only: the server never answered
+  NO_RESPONSE: 'NO_RESPONSE',
+} as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES];
+
+export interface AppError extends Omit<IErrorPayload, 'code'> {
+  code: ErrorCode;
+}
+
+/**
+ * Error thrown for a failed API request, carrying the server's error fields
+ */
+export class ApiRequestError extends Error implements AppError {
+  code: ErrorCode;
+  status: number;
+  minimumBid?: number;
+  remainingBudget?: number;
+  maxBid?: number;
+
+  constructor(status: number, body: Partial<AppError>) {
+    super(body.message || 'An error occurred');
+    this.name = 'ApiRequestError';
+    this.status = status;
+    this.code = body.code || ERROR_CODES.INTERNAL_ERROR;
+    this.minimumBid = body.minimumBid;
+    this.remainingBudget = body.remainingBudget;
+    this.maxBid = body.maxBid;
+  }
+}
+
+/**
+ * Toast title and description for an error, tailored to its code where the
+ * server's message alone is not helpful
+ */
+export function describeError(
+  error: Partial<AppError>,
+  fallbackTitle = 'Error'
+): { title: string; description: string } {
+  const message = error.message || 'Something went wrong. Please try again.';
+
+  switch (error.code) {
+    case ERROR_CODES.BID_TOO_LOW:
+      return {
+        title: 'Bid too low',
+        description:
+          error.minimumBid !== undefined
+            ? `The minimum bid is now ${formatCurrency(error.minimumBid)}`
+            : message,
+      };
+    case ERROR_CODES.BUDGET_EXCEEDED:
+      return {
+        title: 'Not enough budget',
+        description:
+          error.remainingBudget !== undefined
+            ? `Your team has ${formatCurrency(error.remainingBudget)} left`
+            : message,
+      };
+    case ERROR_CODES.MAX_BID_EXCEEDED:
+      return {
+        title: 'Over your limit',
+        description:
+          error.maxBid !== undefined
+            ? `You can bid up to ${formatCurrency(error.maxBid)} and still fill your squad`
+            : message,
+      };
+    case ERROR_CODES.STALE_BID:
+      return {
+        title: 'Outbid',
+        description: 'Another bid landed first. Check the new price and bid again.',
+      };
+    case ERROR_CODES.LOT_CLOSED:
+    case ERROR_CODES.PLAYER_NOT_ON_BLOCK:
+      return { title: 'Bidding closed', description: message };
+    case ERROR_CODES.PASSED:
+      return { title: 'You passed', description: 'You cannot bid on this player again' };
+    case ERROR_CODES.AUCTION_NOT_LIVE:
+      return { title: 'Auction not live', description: message };
+    case ERROR_CODES.UNAUTHORIZED:
+    case ERROR_CODES.TOKEN_EXPIRED:
+      return { title: 'Session expired', description: 'Please sign in again' };
+    case ERROR_CODES.RATE_LIMITED:
+      return { title: 'Slow down', description: message };
+    case ERROR_CODES.NO_RESPONSE:
+      return { title: 'No response', description: message };
+    default:
+      return { title: fallbackTitle, description: message };
+  }
+}
@@ -1,40 +1,60 @@
 import { io, Socket } from 'socket.io-client';
+import {
+  ClientToServerEvents,
+  IAuctionStatePayload,
+  IBidAckPayload,
+  ISequenced,
+  ServerToClientEvents,
+  SOCKET_EVENTS,
+} from '@bidzr/shared';
+import { AppError, ERROR_CODES } from './errors';
 
 const SOCKET_URL = process.env.NEXT_PUBLIC_SOCKET_URL || 'http://localhost:5000';
 
-// Socket event constants (matching backend)
-export const SOCKET_EVENTS = {
-  // Client -> Server
-  JOIN_AUCTION: 'join_auction',
-  LEAVE_AUCTION: 'leave_auction',
-  PLACE_BID: 'place_bid',
-  ADMIN_PUT_ON_BLOCK: 'admin_put_on_block',
-  ADMIN_END_PLAYER_BIDDING: 'admin_end_player_bidding',
-  ADMIN_START_AUCTION: 'admin_start_auction',
-  ADMIN_PAUSE_AUCTION: 'admin_pause_auction',
-
-  // Server -> Client
-  AUCTION_STATE: 'auction_state',
-  PLAYER_ON_BLOCK: 'player_on_block',
-  BID_UPDATE: 'bid_update',
-  TIMER_UPDATE: 'timer_update',
-  PLAYER_SOLD: 'player_sold',
-  PLAYER_UNSOLD: 'player_unsold',
-  AUCTION_STARTED: 'auction_started',
-  AUCTION_PAUSED: 'auction_paused',
-  AUCTION_ENDED: 'auction_ended',
-  ERROR: 'error',
-  TEAM_UPDATE: 'team_update',
-} as const;
+export { SOCKET_EVENTS };
+
+// The client's side of the shared event contract
+export type AuctionSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+type ServerEvent = keyof ServerToClientEvents;
+type Listener = (payload: unknown) => void;
+
+// Backend instances can deliver neighbouring room events out of order, so a
+// gap in the sequence gets this long to fill before the room is resynced
+const GAP_RESYNC_MS = 1000;
+
+// A bid is retried with the same idempotency key until the server answers
+const BID_ACK_TIMEOUT_MS = 5000;
+const BID_ATTEMPTS = 3;
+
+// Rejected bids carry the error fields, including client-only codes
+export type BidAck = Omit<IBidAckPayload, 'code'> & Partial<AppError>;
+
+const createIdempotencyKey = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+interface JoinedRoom {
+  auctionId: string;
+  password: string;
+}
 
 class SocketManager {
-  private socket: Socket | null = null;
+  private socket: AuctionSocket | null = null;
   private token: string | null = null;
+  private room: JoinedRoom | null = null;
+  private lastSeq = 0; // Last room event passed on to listeners
+  private synced = false; // Room state received since joining
+  // Room events waiting for an earlier one, by sequence number
+  private pending: Map<number, { event: ServerEvent; payload: unknown }> = new Map();
+  private gapTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Map<ServerEvent, Set<Listener>> = new Map();
 
   /**
    * Initialize socket connection with auth token
    */
-  connect(token: string): Socket {
+  connect(token: string): AuctionSocket {
     if (this.socket?.connected && this.token === token) {
       return this.socket;
     }
@@ -63,6 +83,15 @@ class SocketManager {
       console.error('Socket connection error:', error.message);
     });
 
+    this.socket.onAny((event: ServerEvent, payload: unknown) => {
+      this.receive(event, payload);
+    });
+
+    // Rejoin the room after a dropped connection and catch up on missed events
+    this.socket.io.on('reconnect', () => {
+      this.resync();
+    });
+
     return this.socket;
   }
 
@@ -74,13 +103,15 @@ class SocketManager {
       this.socket.disconnect();
       this.socket = null;
       this.token = null;
+      this.room = null;
+      this.resetSequence();
     }
   }
 
   /**
    * Get current socket instance
    */
-  getSocket(): Socket | null {
+  getSocket(): AuctionSocket | null {
     return this.socket;
   }
 
@@ -89,25 +120,164 @@ class SocketManager {
    */
   joinAuction(auctionId: string, password: string): void {
     if (this.socket) {
+      this.room = { auctionId, password };
+      this.resetSequence();
       this.socket.emit(SOCKET_EVENTS.JOIN_AUCTION, { auctionId, password });
     }
   }
 
+  /**
+   * Rejoin the current auction room, asking for the events missed since the
+   * last one seen
+   */
+  resync(): void {
+    if (this.socket && this.room) {
+      this.socket.emit(SOCKET_EVENTS.RESYNC, { ...this.room, lastSeq: this.lastSeq });
+    }
+  }
+
+  /**
+   * Listen for a server event. Room events reach listeners in sequence order,
+   * each exactly once, however they arrived.
+   */
+  on<E extends ServerEvent>(event: E, listener: ServerToClientEvents[E]): void {
+    const listeners = this.listeners.get(event) ?? new Set<Listener>();
+    listeners.add(listener as Listener);
+    this.listeners.set(event, listeners);
+  }
+
+  /**
+   * Stop listening for a server event
+   */
+  off<E extends ServerEvent>(event: E, listener: ServerToClientEvents[E]): void {
+    this.listeners.get(event)?.delete(listener as Listener);
+  }
+
+  /**
+   * Pass server events on in sequence order. Room events that arrive ahead of
+   * a missing one are held back until it is replayed, and the room state
+   * stands in for every event up to its own sequence number.
+   */
+  private receive(event: ServerEvent, payload: unknown): void {
+    if (event === SOCKET_EVENTS.AUCTION_STATE) {
+      this.lastSeq = (payload as IAuctionStatePayload).seq;
+      this.synced = true;
+      this.dispatch(event, payload);
+      this.drain();
+      return;
+    }
+
+    // Timer ticks and errors are not numbered
+    const seq = (payload as Partial<ISequenced> | undefined)?.seq;
+    if (typeof seq !== 'number') {
+      this.dispatch(event, payload);
+      return;
+    }
+
+    if (seq <= this.lastSeq) return; // Already applied, e.g. seen live and replayed
+    this.pending.set(seq, { event, payload });
+    this.drain();
+  }
+
+  /**
+   * Pass on held room events that are next in sequence, and resync if a gap
+   * does not fill in time
+   */
+  private drain(): void {
+    if (!this.synced) return;
+
+    this.pending.forEach((_, seq) => {
+      if (seq <= this.lastSeq) this.pending.delete(seq);
+    });
+
+    let next = this.pending.get(this.lastSeq + 1);
+    while (next) {
+      this.pending.delete(this.lastSeq + 1);
+      this.lastSeq += 1;
+      this.dispatch(next.event, next.payload);
+      next = this.pending.get(this.lastSeq + 1);
+    }
+
+    if (this.pending.size === 0) {
+      this.clearGapTimer();
+    } else if (!this.gapTimer) {
+      this.gapTimer = setTimeout(() => {
+        this.gapTimer = null;
+        if (this.pending.size > 0) this.resync();
+      }, GAP_RESYNC_MS);
+    }
+  }
+
+  private dispatch(event: ServerEvent, payload: unknown): void {
+    this.listeners.get(event)?.forEach((listener) => listener(payload));
+  }
+
+  private resetSequence(): void {
+    this.lastSeq = 0;
+    this.synced = false;
+    this.pending.clear();
+    this.clearGapTimer();
+  }
+
+  private clearGapTimer(): void {
+    if (this.gapTimer) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = null;
+    }
+  }
+
   /**
    * Leave current auction room
    */
   leaveAuction(): void {
     if (this.socket) {
+      this.room = null;
+      this.resetSequence();
       this.socket.emit(SOCKET_EVENTS.LEAVE_AUCTION);
     }
   }
 
   /**
-   * Place a bid
+   * Place a bid and wait for the server to accept or reject it. Unanswered
+   * attempts are retried with the same idempotency key, so the bid is never
+   * placed twice.
+   */
+  async placeBid(playerId: string, amount: number): Promise<BidAck> {
+    const idempotencyKey = createIdempotencyKey();
+
+    for (let attempt = 1; this.socket; attempt++) {
+      try {
+        return await this.socket
+          .timeout(BID_ACK_TIMEOUT_MS)
+          .emitWithAck(SOCKET_EVENTS.PLACE_BID, { playerId, amount, idempotencyKey });
+      } catch (error) {
+        if (attempt >= BID_ATTEMPTS) break;
+      }
+    }
+
+    return {
+      idempotencyKey,
+      accepted: false,
+      code: ERROR_CODES.NO_RESPONSE,
+      message: 'The server did not confirm your bid. Check the bid history before bidding again.',
+    };
+  }
+
+  /**
+   * Drop out of bidding for the player on the block
+   */
+  passLot(playerId: string): void {
+    if (this.socket) {
+      this.socket.emit(SOCKET_EVENTS.PASS, { playerId });
+    }
+  }
+
+  /**
+   * Draft a player when your team is on the clock
    */
-  placeBid(playerId: string, amount: number): void {
+  makeDraftPick(playerId: string): void {
     if (this.socket) {
-      this.socket.emit(SOCKET_EVENTS.PLACE_BID, { playerId, amount });
+      this.socket.emit(SOCKET_EVENTS.DRAFT_PICK, { playerId });
     }
   }
 
@@ -139,29 +309,56 @@ class SocketManager {
   }
 
   /**
-   * Admin: End auction
+   * Match or pass on a Right-to-Match offer for a player
+   */
+  respondToRightToMatch(playerId: string, accept: boolean): void {
+    if (this.socket) {
+      this.socket.emit(SOCKET_EVENTS.RTM_RESPONSE, { playerId, accept });
+    }
+  }
+
+  /**
+   * Admin: Start or resume the auction
+   */
+  startAuction(): void {
+    if (this.socket) {
+      this.socket.emit(SOCKET_EVENTS.ADMIN_START_AUCTION);
+    }
+  }
+
+  /**
+   * Admin: Pause the auction
+   */
+  pauseAuction(): void {
+    if (this.socket) {
+      this.socket.emit(SOCKET_EVENTS.ADMIN_PAUSE_AUCTION);
+    }
+  }
+
+  /**
+   * Admin: Turn auto-run mode on or off
    */
-  endAuction(auctionId: string): void {
+  setAutoRun(enabled: boolean, gapSeconds?: number): void {
     if (this.socket) {
-      this.socket.emit('auction:end', { auctionId });
+      this.socket.emit(SOCKET_EVENTS.ADMIN_SET_AUTO_RUN, { enabled, gapSeconds });
     }
   }
 
   /**
-   * Subscribe to an event
+   * Admin: Skip the player on the block
    */
-  on(event: string, callback: (...args: any[]) => void): void {
+  skipPlayer(): void {
     if (this.socket) {
-      this.socket.on(event, callback);
+      this.socket.emit(SOCKET_EVENTS.ADMIN_SKIP_PLAYER);
     }
   }
 
   /**
-   * Unsubscribe from an event
+   * Admin: Withdraw the player on the block back to the pool
    */
-  off(event: string, callback?: (...args: any[]) => void): void {
+  withdrawPlayer(): void {
     if (this.socket) {
-      this.socket.off(event, callback);
+      this.socket.emit(SOCKET_EVENTS.ADMIN_WITHDRAW_PLAYER);
     }
   }
 }
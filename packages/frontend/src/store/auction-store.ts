@@ -1,31 +1,26 @@
 import { create } from 'zustand';
+import type {
+  AuctionStatus,
+  IBidUpdatePayload,
+  IPlayerOnBlockPayload,
+  IPlayerSoldPayload,
+} from '@bidzr/shared';
 
 // Types
-interface Player {
-  id: string;
-  name: string;
-  avatar?: string;
-  role: string;
-  basePrice: number;
-  profile?: {
-    jerseyName?: string;
-    jerseyNumber?: number;
-    nationality?: string;
-    age?: number;
-  };
-}
+type Player = IPlayerOnBlockPayload['player'];
 
 interface Team {
   id: string;
   name: string;
   shortName: string;
   remainingBudget: number;
+  maxBid: number;
   playerCount: number;
 }
 
 interface CurrentPlayer extends Player {
   currentBid: number;
-  currentTeam?: string;
+  currentTeam?: string | null; // Name of the highest bidder
   timeRemaining: number;
 }
 
@@ -33,7 +28,7 @@ interface AuctionInfo {
   id: string;
   name: string;
   sportType: string;
-  status: 'upcoming' | 'live' | 'paused' | 'ended';
+  status: AuctionStatus;
   bidIncrementAmount: number;
   bidTimerSeconds: number;
 }
@@ -44,24 +39,9 @@ interface Stats {
   unsold: number;
 }
 
-interface BidUpdate {
-  playerId: string;
-  currentBid: number;
-  teamId: string;
-  teamName: string;
-  teamShortName: string;
-  bidderName: string;
-  timestamp: Date;
-  timeRemaining: number;
-}
-
-interface PlayerSold {
-  playerId: string;
-  playerName: string;
-  teamId: string;
-  teamName: string;
-  soldPrice: number;
-}
+// Room events as the server sends them
+type BidUpdate = IBidUpdatePayload;
+type PlayerSold = IPlayerSoldPayload;
 
 interface AuctionState {
   // Connection state
@@ -151,7 +131,7 @@ export const useAuctionStore = create<AuctionState>((set, get) => ({
             currentTeam: bid.teamName,
           }
         : null,
-      timeRemaining: bid.timeRemaining,
+      timeRemaining: bid.timeRemaining ?? state.timeRemaining,
       recentBids: [bid, ...state.recentBids.slice(0, 9)], // Keep last 10 bids
     })),
 
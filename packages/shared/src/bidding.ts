@@ -0,0 +1,25 @@
+// ============================================
+// Bidding rules the frontend applies as the backend does
+// ============================================
+
+export interface IBidIncrementTier {
+  from: number; // Applies once the current bid reaches this amount
+  increment: number;
+}
+
+/**
+ * Step to raise the current bid by. The flat increment applies below the
+ * first tier, and each tier from its threshold upwards.
+ */
+export const getBidIncrement = (
+  currentBid: number,
+  baseIncrement: number,
+  tiers: IBidIncrementTier[] = []
+): number => {
+  let increment = baseIncrement;
+  for (const tier of tiers) {
+    if (currentBid < tier.from) break;
+    increment = tier.increment;
+  }
+  return increment;
+};
@@ -0,0 +1,40 @@
+// ============================================
+// Enums shared by the backend and frontend
+// ============================================
+// Plain objects rather than TypeScript enums, so the string values sent over
+// the wire are also valid members on the client.
+
+export const AuctionStatus = {
+  UPCOMING: 'upcoming',
+  LIVE: 'live',
+  PAUSED: 'paused',
+  ENDED: 'ended',
+} as const;
+export type AuctionStatus = (typeof AuctionStatus)[keyof typeof AuctionStatus];
+
+export const AuctionFormat = {
+  OPEN: 'open', // Ascending open outcry
+  SEALED: 'sealed', // One hidden bid per team, revealed when the lot closes
+  DRAFT: 'draft', // Teams pick players in turn, no money changes hands
+} as const;
+export type AuctionFormat = (typeof AuctionFormat)[keyof typeof AuctionFormat];
+
+export const DraftOrderType = {
+  SNAKE: 'snake', // Order reverses every round
+  LINEAR: 'linear', // Same order every round
+} as const;
+export type DraftOrderType = (typeof DraftOrderType)[keyof typeof DraftOrderType];
+
+export const LotPhase = {
+  OPEN: 'open',
+  GOING_ONCE: 'going_once',
+  GOING_TWICE: 'going_twice',
+  SOLD: 'sold',
+} as const;
+export type LotPhase = (typeof LotPhase)[keyof typeof LotPhase];
+
+export const CorrectionAction = {
+  UNDO: 'undo',
+  REASSIGN: 'reassign',
+} as const;
+export type CorrectionAction = (typeof CorrectionAction)[keyof typeof CorrectionAction];
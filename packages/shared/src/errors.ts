@@ -0,0 +1,46 @@
+// Every failure reported over REST and sockets carries one of these codes
+export const ErrorCode = {
+  // General
+  VALIDATION_ERROR: 'VALIDATION_ERROR',
+  INVALID_ID: 'INVALID_ID',
+  NOT_FOUND: 'NOT_FOUND',
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  TOKEN_EXPIRED: 'TOKEN_EXPIRED',
+  FORBIDDEN: 'FORBIDDEN',
+  CONFLICT: 'CONFLICT',
+  DUPLICATE_ERROR: 'DUPLICATE_ERROR',
+  RATE_LIMITED: 'RATE_LIMITED',
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+
+  // Auction room
+  INVALID_AUCTION_PASSWORD: 'INVALID_AUCTION_PASSWORD',
+  NOT_IN_AUCTION: 'NOT_IN_AUCTION',
+  ADMIN_ONLY: 'ADMIN_ONLY',
+  TEAM_OWNER_ONLY: 'TEAM_OWNER_ONLY',
+  AUCTION_NOT_LIVE: 'AUCTION_NOT_LIVE',
+  NO_PLAYERS_PENDING: 'NO_PLAYERS_PENDING',
+  RTM_NOT_OPEN: 'RTM_NOT_OPEN',
+
+  // Bidding
+  PLAYER_NOT_ON_BLOCK: 'PLAYER_NOT_ON_BLOCK',
+  BID_TOO_LOW: 'BID_TOO_LOW',
+  BUDGET_EXCEEDED: 'BUDGET_EXCEEDED',
+  MAX_BID_EXCEEDED: 'MAX_BID_EXCEEDED',
+  SQUAD_RULE_VIOLATION: 'SQUAD_RULE_VIOLATION',
+  STALE_BID: 'STALE_BID',
+  ALREADY_BID: 'ALREADY_BID',
+  LOT_CLOSED: 'LOT_CLOSED',
+  PASSED: 'PASSED',
+} as const;
+export type ErrorCode = (typeof ErrorCode)[keyof typeof ErrorCode];
+
+// Body of REST error responses and socket ERROR events
+export interface IErrorPayload {
+  code: ErrorCode;
+  message: string;
+  minimumBid?: number; // BID_TOO_LOW
+  remainingBudget?: number; // BUDGET_EXCEEDED
+  maxBid?: number; // MAX_BID_EXCEEDED
+}
+
+export type IErrorDetails = Omit<IErrorPayload, 'code' | 'message'>;
@@ -0,0 +1,141 @@
+import { IErrorPayload } from './errors';
+import {
+  IAuctionEndedPayload,
+  IAuctionStatePayload,
+  IAuctionStatusPayload,
+  IAutoRunPayload,
+  IBidAckPayload,
+  IBidUpdatePayload,
+  IDraftOnClockPayload,
+  IDraftPickPayload,
+  IJoinAuctionPayload,
+  ILotPassedPayload,
+  ILotPhasePayload,
+  IPlaceBidPayload,
+  IPlayerActionPayload,
+  IPlayerOnBlockPayload,
+  IPlayerSoldPayload,
+  IPlayerUnsoldPayload,
+  IPlayerWithdrawnPayload,
+  IPutOnBlockPayload,
+  IResyncPayload,
+  IRightToMatchOfferPayload,
+  IRightToMatchResponsePayload,
+  IRoundStartedPayload,
+  ISaleCorrectedPayload,
+  ISealedBidReceivedPayload,
+  ISealedBidsRevealedPayload,
+  ISequenced,
+  ISetAutoRunPayload,
+  ISetChangedPayload,
+  ITeamUpdatePayload,
+  ITimerUpdatePayload,
+} from './payloads';
+
+export const SOCKET_EVENTS = {
+  // Client -> Server
+  JOIN_AUCTION: 'join_auction',
+  RESYNC: 'resync',
+  LEAVE_AUCTION: 'leave_auction',
+  PLACE_BID: 'place_bid',
+  ADMIN_PUT_ON_BLOCK: 'admin_put_on_block',
+  ADMIN_END_PLAYER_BIDDING: 'admin_end_player_bidding',
+  ADMIN_START_AUCTION: 'admin_start_auction',
+  ADMIN_PAUSE_AUCTION: 'admin_pause_auction',
+  ADMIN_SET_AUTO_RUN: 'admin_set_auto_run',
+  ADMIN_SKIP_PLAYER: 'admin_skip_player',
+  ADMIN_WITHDRAW_PLAYER: 'admin_withdraw_player',
+  RTM_RESPONSE: 'rtm_response',
+  DRAFT_PICK: 'draft_pick',
+  PASS: 'pass',
+
+  // Server -> Client
+  AUCTION_STATE: 'auction_state',
+  PLAYER_ON_BLOCK: 'player_on_block',
+  BID_UPDATE: 'bid_update',
+  TIMER_UPDATE: 'timer_update',
+  PLAYER_SOLD: 'player_sold',
+  PLAYER_UNSOLD: 'player_unsold',
+  AUCTION_STARTED: 'auction_started',
+  AUCTION_PAUSED: 'auction_paused',
+  AUCTION_ENDED: 'auction_ended',
+  ERROR: 'error',
+  TEAM_UPDATE: 'team_update',
+  RTM_OFFER: 'rtm_offer',
+  ROUND_STARTED: 'round_started',
+  SET_CHANGED: 'set_changed',
+  AUTO_RUN_UPDATE: 'auto_run_update',
+  SALE_CORRECTED: 'sale_corrected',
+  SEALED_BID_RECEIVED: 'sealed_bid_received',
+  SEALED_BIDS_REVEALED: 'sealed_bids_revealed',
+  DRAFT_ON_CLOCK: 'draft_on_clock',
+  DRAFT_PICK_MADE: 'draft_pick_made',
+  LOT_PHASE: 'lot_phase',
+  LOT_PASSED: 'lot_passed',
+  PLAYER_WITHDRAWN: 'player_withdrawn',
+} as const;
+
+/**
+ * Events a client sends, typed for Socket.IO's `Server<ClientToServerEvents, ...>`
+ * and the client's `Socket<..., ClientToServerEvents>`
+ */
+export interface ClientToServerEvents {
+  [SOCKET_EVENTS.JOIN_AUCTION]: (data: IJoinAuctionPayload) => void;
+  [SOCKET_EVENTS.RESYNC]: (data: IResyncPayload) => void;
+  [SOCKET_EVENTS.LEAVE_AUCTION]: () => void;
+  [SOCKET_EVENTS.PLACE_BID]: (
+    data: IPlaceBidPayload,
+    ack?: (result: IBidAckPayload) => void
+  ) => void;
+  [SOCKET_EVENTS.ADMIN_PUT_ON_BLOCK]: (data: IPutOnBlockPayload) => void;
+  [SOCKET_EVENTS.ADMIN_END_PLAYER_BIDDING]: (data: IPlayerActionPayload) => void;
+  [SOCKET_EVENTS.ADMIN_START_AUCTION]: () => void;
+  [SOCKET_EVENTS.ADMIN_PAUSE_AUCTION]: () => void;
+  [SOCKET_EVENTS.ADMIN_SET_AUTO_RUN]: (data: ISetAutoRunPayload) => void;
+  [SOCKET_EVENTS.ADMIN_SKIP_PLAYER]: () => void;
+  [SOCKET_EVENTS.ADMIN_WITHDRAW_PLAYER]: () => void;
+  [SOCKET_EVENTS.RTM_RESPONSE]: (data: IRightToMatchResponsePayload) => void;
+  [SOCKET_EVENTS.DRAFT_PICK]: (data: IPlayerActionPayload) => void;
+  [SOCKET_EVENTS.PASS]: (data: IPlayerActionPayload) => void;
+}
+
+/**
+ * Events broadcast to an auction room. Each is numbered and kept for replay
+ * to clients that reconnect.
+ */
+export interface RoomEvents {
+  [SOCKET_EVENTS.PLAYER_ON_BLOCK]: IPlayerOnBlockPayload;
+  [SOCKET_EVENTS.BID_UPDATE]: IBidUpdatePayload;
+  [SOCKET_EVENTS.PLAYER_SOLD]: IPlayerSoldPayload;
+  [SOCKET_EVENTS.PLAYER_UNSOLD]: IPlayerUnsoldPayload;
+  [SOCKET_EVENTS.AUCTION_STARTED]: IAuctionStatusPayload;
+  [SOCKET_EVENTS.AUCTION_PAUSED]: IAuctionStatusPayload;
+  [SOCKET_EVENTS.AUCTION_ENDED]: IAuctionEndedPayload;
+  [SOCKET_EVENTS.TEAM_UPDATE]: ITeamUpdatePayload;
+  [SOCKET_EVENTS.RTM_OFFER]: IRightToMatchOfferPayload;
+  [SOCKET_EVENTS.ROUND_STARTED]: IRoundStartedPayload;
+  [SOCKET_EVENTS.SET_CHANGED]: ISetChangedPayload;
+  [SOCKET_EVENTS.AUTO_RUN_UPDATE]: IAutoRunPayload;
+  [SOCKET_EVENTS.SALE_CORRECTED]: ISaleCorrectedPayload;
+  [SOCKET_EVENTS.SEALED_BID_RECEIVED]: ISealedBidReceivedPayload;
+  [SOCKET_EVENTS.SEALED_BIDS_REVEALED]: ISealedBidsRevealedPayload;
+  [SOCKET_EVENTS.DRAFT_ON_CLOCK]: IDraftOnClockPayload;
+  [SOCKET_EVENTS.DRAFT_PICK_MADE]: IDraftPickPayload;
+  [SOCKET_EVENTS.LOT_PHASE]: ILotPhasePayload;
+  [SOCKET_EVENTS.LOT_PASSED]: ILotPassedPayload;
+  [SOCKET_EVENTS.PLAYER_WITHDRAWN]: IPlayerWithdrawnPayload;
+}
+
+export type RoomEvent = keyof RoomEvents;
+
+/**
+ * Events the server sends, typed for Socket.IO's `Server<..., ServerToClientEvents>`
+ * and the client's `Socket<ServerToClientEvents, ...>`
+ */
+export type ServerToClientEvents = {
+  [E in RoomEvent]: (payload: RoomEvents[E] & ISequenced) => void;
+} & {
+  [SOCKET_EVENTS.AUCTION_STATE]: (payload: IAuctionStatePayload) => void;
+  [SOCKET_EVENTS.TIMER_UPDATE]: (payload: ITimerUpdatePayload) => void;
+  [SOCKET_EVENTS.ERROR]: (payload: IErrorPayload) => void;
+};
@@ -0,0 +1,5 @@
+export * from './enums';
+export * from './bidding';
+export * from './errors';
+export * from './payloads';
+export * from './events';
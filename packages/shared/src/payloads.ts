@@ -0,0 +1,303 @@
+import { AuctionFormat, AuctionStatus, CorrectionAction, DraftOrderType, LotPhase } from './enums';
+import { IBidIncrementTier } from './bidding';
+import { IErrorPayload } from './errors';
+
+// Payloads describe what arrives on the other end: IDs are strings and dates
+// are ISO strings.
+
+// ============================================
+// Client -> Server Payloads
+// ============================================
+
+export interface IJoinAuctionPayload {
+  auctionId: string;
+  password: string;
+}
+
+export interface IResyncPayload extends IJoinAuctionPayload {
+  lastSeq: number; // Last sequence number the client saw
+}
+
+export interface IPlaceBidPayload {
+  playerId: string;
+  amount: number;
+  idempotencyKey?: string; // Same key on every retry of one bid
+}
+
+// Rejected bids carry the error fields
+export interface IBidAckPayload extends Partial<IErrorPayload> {
+  idempotencyKey?: string;
+  accepted: boolean;
+  bidId?: string;
+  amount?: number;
+  duplicate?: boolean; // A retry of a bid that was already placed
+}
+
+export interface IPlayerActionPayload {
+  playerId: string;
+}
+
+export interface IPutOnBlockPayload {
+  playerId?: string; // Next pending player when omitted
+  auctionId?: string;
+}
+
+export interface IRightToMatchResponsePayload {
+  playerId: string;
+  accept: boolean;
+}
+
+export interface ISetAutoRunPayload {
+  enabled: boolean;
+  gapSeconds?: number;
+}
+
+// ============================================
+// Server -> Client Payloads
+// ============================================
+
+// Added to every event broadcast to an auction room, except timer ticks
+export interface ISequenced {
+  seq: number;
+}
+
+export interface IPlayerOnBlockPayload {
+  player: {
+    id: string;
+    name: string;
+    avatar?: string;
+    role: string;
+    basePrice: number;
+    profile?: {
+      jerseyName?: string;
+      jerseyNumber?: number;
+      nationality?: string;
+      age?: number;
+    };
+  };
+  timeRemaining: number;
+}
+
+export interface IBidUpdatePayload {
+  auctionId: string;
+  playerId: string;
+  currentBid: number;
+  teamId: string;
+  teamName: string;
+  teamShortName: string;
+  bidderName?: string;
+  isProxy: boolean; // Placed for the team by its proxy ceiling
+  timestamp: string;
+  timeRemaining?: number; // Left out when another instance runs the lot's timer; its update follows
+}
+
+export interface ITimerUpdatePayload {
+  auctionId: string;
+  playerId: string;
+  timeRemaining: number;
+  extensionSeconds: number; // Soft-close extension used by the lot so far
+  extendedBy?: number; // Set on the update sent when a bid extends the lot
+}
+
+export interface IPlayerSoldPayload {
+  auctionId: string;
+  playerId: string;
+  playerName: string;
+  teamId: string;
+  teamName: string;
+  soldPrice: number;
+  round: number;
+  viaRightToMatch?: boolean;
+}
+
+export interface IRightToMatchOfferPayload {
+  auctionId: string;
+  playerId: string;
+  playerName: string;
+  teamId: string;
+  teamName: string;
+  winningTeamId: string;
+  winningTeamName: string;
+  amount: number;
+  timeRemaining: number;
+}
+
+export interface IPlayerUnsoldPayload {
+  auctionId: string;
+  playerId: string;
+  playerName: string;
+  reason?: string;
+}
+
+export interface ITeamUpdatePayload {
+  teamId: string;
+  remainingBudget: number;
+  maxBid: number;
+  rtmCardsRemaining: number;
+  playerCount: number;
+}
+
+export interface IRoundStartedPayload {
+  auctionId: string;
+  round: number;
+  playerIds: string[];
+  bidTimerSeconds: number;
+}
+
+export interface ISetChangedPayload {
+  auctionId: string;
+  setId: string | null; // null once only unassigned players remain
+  setName: string | null;
+  playersRemaining: number;
+}
+
+export interface ISaleCorrectedPayload {
+  auctionId: string;
+  playerId: string;
+  playerName: string;
+  action: CorrectionAction;
+  fromTeamId?: string;
+  toTeamId?: string;
+  price?: number;
+  reason: string;
+}
+
+// Bidders and amounts stay hidden until the reveal
+export interface ISealedBidReceivedPayload {
+  auctionId: string;
+  playerId: string;
+  bidCount: number; // Sealed bids in so far
+}
+
+export interface ISealedBidResult {
+  rank: number;
+  teamId: string;
+  teamName: string;
+  amount: number;
+  submittedAt: string;
+}
+
+export interface ISealedBidsRevealedPayload {
+  auctionId: string;
+  playerId: string;
+  playerName: string;
+  bids: ISealedBidResult[]; // Highest first, ties by earliest submission
+}
+
+export interface IDraftOnClockPayload {
+  auctionId: string;
+  pickNumber: number; // 1-based overall pick
+  round: number;
+  teamId: string;
+  teamName: string;
+  timeRemaining: number;
+}
+
+export interface IDraftPickPayload {
+  auctionId: string;
+  pickNumber: number;
+  round: number;
+  teamId: string;
+  teamName: string;
+  playerId: string;
+  playerName: string;
+  autoPicked: boolean; // Made for the team when its pick timer ran out
+}
+
+export interface ILotPhasePayload {
+  auctionId: string;
+  playerId: string;
+  phase: LotPhase;
+  timeRemaining: number;
+}
+
+export interface IPlayerWithdrawnPayload {
+  auctionId: string;
+  playerId: string;
+  playerName: string;
+}
+
+export interface ILotPassedPayload {
+  auctionId: string;
+  playerId: string;
+  teamId: string;
+  teamName: string;
+  teamsStillIn: number; // Teams other than the highest bidder yet to pass
+}
+
+export interface IAutoRunPayload {
+  auctionId: string;
+  enabled: boolean;
+  gapSeconds: number;
+  nextLotIn?: number; // Seconds until the next player goes on the block
+}
+
+export interface IAuctionStatusPayload {
+  auctionId: string;
+  status: AuctionStatus;
+  timeRemaining: number;
+}
+
+export interface IAuctionEndedPayload {
+  auctionId: string;
+  endTime?: string;
+}
+
+export interface IDraftBoardState {
+  orderType: DraftOrderType;
+  order: Array<{ _id: string; name: string; shortName: string }>; // First-round order
+  picks: Array<{ pickNumber: number; teamId: string; playerId: string; playerName: string }>;
+  onClock: { teamId: string; pickNumber: number; round: number } | null;
+}
+
+// Everything a client needs to render the room, sent on join and on resync
+// when missed events can no longer be replayed
+export interface IAuctionStatePayload {
+  seq: number; // Events up to this one are reflected in the state
+  auction: {
+    id: string;
+    name: string;
+    sportType: string;
+    status: AuctionStatus;
+    bidIncrementAmount: number;
+    bidIncrementTiers: IBidIncrementTier[];
+    format: AuctionFormat;
+    currentPick: number;
+    bidTimerSeconds: number;
+    softClose?: {
+      windowSeconds: number;
+      extensionSeconds: number;
+      maxExtensionSeconds: number;
+    };
+    lotExtensionSeconds: number;
+    goingOnceSeconds: number;
+    goingTwiceSeconds: number;
+    lotPasses: string[]; // Teams that passed on the current lot
+    currentRound: number;
+    currentSet: string | null;
+    autoRun: boolean;
+    autoRunGapSeconds: number;
+  };
+  currentPlayer: {
+    id: string;
+    name: string;
+    avatar?: string;
+    role: string;
+    basePrice: number;
+    currentBid: number;
+    currentTeam: string | null; // Name of the highest bidder
+    timeRemaining: number;
+  } | null;
+  teams: Array<{
+    id: string;
+    name: string;
+    shortName: string;
+    remainingBudget: number;
+    maxBid: number;
+    rtmCardsRemaining: number;
+    playerCount: number;
+  }>;
+  rightToMatch: { playerId: string; teamId: string } | null;
+  stats: { pending: number; sold: number; unsold: number };
+  draft: IDraftBoardState | null;
+}